@@ -40,6 +40,15 @@ function setupWeightUI() {
 
   weightPanel.innerHTML = `
         <h3 style="margin: 0 0 15px 0; color: #00ff00;">🎨 Weight Painting</h3>
+        <div style="margin-bottom: 10px;">
+            <label>Loading condition: </label>
+            <select id="loadingCondition" style="color: black; padding: 2px;">
+                <option value="default">Default</option>
+                <option value="lightship">Lightship</option>
+                <option value="departure">Departure</option>
+                <option value="arrival">Arrival</option>
+            </select>
+        </div>
         <div id="modeIndicator" style="margin-bottom: 10px; padding: 5px; border-radius: 3px; background: #00aa00; color: white; text-align: center; font-size: 12px;">
             Mode: ADD 🟢
         </div>
@@ -82,6 +91,23 @@ function setupWeightUI() {
   const applyWeightBtn = document.getElementById('applyWeight') as HTMLButtonElement;
   const clearSelectionBtn = document.getElementById('clearSelection') as HTMLButtonElement;
   const clearAllWeightsBtn = document.getElementById('clearAllWeights') as HTMLButtonElement;
+  const loadingConditionSelect = document.getElementById('loadingCondition') as HTMLSelectElement;
+
+  // Keep the selector on the hull's active condition (reloading the hull starts over at "default")
+  loadingConditionSelect?.addEventListener('focus', () => {
+    loadingConditionSelect.value = visualizer.getActiveLoadingCondition() ?? 'default';
+  });
+
+  // Switch loading condition, creating it empty on first use
+  loadingConditionSelect?.addEventListener('change', () => {
+    const name = loadingConditionSelect.value;
+    if (!visualizer.getLoadingConditions().includes(name)) {
+      visualizer.addLoadingCondition({ name });
+    }
+    if (visualizer.setLoadingCondition(name)) {
+      showTempMessage(`📋 Loading condition: ${loadingConditionSelect.selectedOptions[0].text}`, 'info');
+    }
+  });
 
   // Set up weight per face input handler
   weightPerFaceInput?.addEventListener('change', (e) => {
@@ -191,6 +217,47 @@ function setupCameraToggle() {
   viewButton?.parentElement?.insertBefore(cameraToggleBtn, viewButton.nextSibling);
 }
 
+function setupFloatToggle() {
+  const floatToggleBtn = document.createElement("button");
+  floatToggleBtn.textContent = "⚓ Float Hull";
+  floatToggleBtn.style.cssText = `
+        margin-left: 10px;
+        padding: 8px 12px;
+        background: #444;
+        color: white;
+        border: none;
+        border-radius: 4px;
+        cursor: pointer;
+    `;
+
+  let floating = false;
+
+  // Float the hull at its equilibrium attitude, or return it upright
+  floatToggleBtn.addEventListener("click", () => {
+    floating = !floating;
+    if (floating) {
+      const result = visualizer.floatHull();
+      visualizer.showWaterIntersection(true);
+      floatToggleBtn.textContent = "⚓ Upright Hull";
+      if (result) {
+        const status = result.converged ? '⚓' : '⚠️';
+        showTempMessage(
+          `${status} Draft ${result.draft.toFixed(3)}, trim ${result.trim.toFixed(2)}°, heel ${result.heel.toFixed(2)}°`,
+          result.converged ? 'info' : 'warning'
+        );
+      }
+    } else {
+      visualizer.resetHullPosition();
+      visualizer.showWaterIntersection(false);
+      floatToggleBtn.textContent = "⚓ Float Hull";
+    }
+  });
+
+  // Insert float toggle after the view button
+  const viewButton = document.getElementById("viewButton");
+  viewButton?.parentElement?.appendChild(floatToggleBtn);
+}
+
 function setupTableSelector() {
   const tableSelector = document.createElement("select");
   tableSelector.innerHTML = `
@@ -255,6 +322,7 @@ function handleViewButtonClick(e: MouseEvent) {
   // Define view options with current state
   const options = {
     wireframe: visualizer.stateManagerRef.WireframeActive,
+    zebra: visualizer.stateManagerRef.ZebraStripesActive,
     stations: visualizer.stateManagerRef.ShowStations,
     waterlines: visualizer.stateManagerRef.ShowWaterlines,
     hull: visualizer.stateManagerRef.ShowHull,
@@ -328,6 +396,9 @@ function createCheckboxElement(title: string, defaultValue = false) {
       case 'wireframe':
         visualizer.stateManagerRef.WireframeActive = checkbox.checked;
         break;
+      case 'zebra':
+        visualizer.stateManagerRef.ZebraStripesActive = checkbox.checked;
+        break;
       case 'stations':
         visualizer.stateManagerRef.ShowStations = checkbox.checked;
         break;
@@ -487,6 +558,7 @@ window.addEventListener("load", () => {
   setupTableSelector();
   setupViewMenu();
   setupCameraToggle();
+  setupFloatToggle();
   setupAddWeightButton();
   setupWeightUI();
   setupSelectionInfoUpdater();
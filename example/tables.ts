@@ -34,7 +34,6 @@ export class Tables {
                 symmetry: "symmetric",
                 units: "mm",
                 hasKeel: true,
-                hasChine: false,
                 thickness: 0.1 // Added to match new format
             }
         }
@@ -48,7 +47,8 @@ export class Tables {
                         { height: 0.0, halfBreadthPort: 0 },
                         { height: 1.0, halfBreadthPort: 3.5 },
                         { height: 2.0, halfBreadthPort: 4.2 }
-                    ]
+                    ],
+                    knuckles: [{ height: 1.0, halfBreadthPort: 3.5, type: "chine" }]
                 },
                 {
                     position: 15,
@@ -56,7 +56,8 @@ export class Tables {
                         { height: 0.0, halfBreadthPort: 0 },
                         { height: 1.0, halfBreadthPort: 6.5 },
                         { height: 2.0, halfBreadthPort: 7.0 }
-                    ]
+                    ],
+                    knuckles: [{ height: 1.0, halfBreadthPort: 6.5, type: "chine" }]
                 },
                 {
                     position: 30,
@@ -64,14 +65,14 @@ export class Tables {
                         { height: 0.0, halfBreadthPort: 0 },
                         { height: 1.0, halfBreadthPort: 3.0 },
                         { height: 2.0, halfBreadthPort: 4.0 }
-                    ]
+                    ],
+                    knuckles: [{ height: 1.0, halfBreadthPort: 3.0, type: "chine" }]
                 }
             ],
             metadata: {
                 symmetry: "asymmetric",
                 units: "ft",
                 hasKeel: true,
-                hasChine: true,
                 weight: 3000,
                 thickness: 0.1 // Added to match new format
             }
@@ -170,7 +171,6 @@ export class Tables {
                 units: 'm',
                 symmetry: 'symmetric',
                 hasKeel: true,
-                hasChine: true,
                 thickness: 0.1
             }
         }
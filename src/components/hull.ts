@@ -8,6 +8,36 @@ import { stateManager } from "../scripts/state_manager";
 import Physics from "../scripts/physics/physics";
 import { SimplifyModifier } from 'three/examples/jsm/modifiers/SimplifyModifier.js';
 import { generateStructuredHullGeometry } from "../scripts/utils/geometry/generators/hull";
+import { computeHydrostatics, computeKeelVolume } from "../scripts/physics/hydrostatics";
+import { computeCurvesOfForm } from "../scripts/physics/curves_of_form";
+import { getFloatingTransform, solveEquilibrium } from "../scripts/physics/equilibrium";
+import { computeGZCurve, type StabilityOptions } from "../scripts/physics/stability";
+import { computeMassProperties, getShellFaces } from "../scripts/physics/mass_properties";
+import { computeBonjeanCurves, computeSectionalAreaCurve } from "../scripts/physics/bonjean";
+import { computeWaterIntersection } from "../scripts/physics/water_intersection";
+import { computeLongitudinalStrength, type StrengthOptions } from "../scripts/physics/longitudinal_strength";
+import {
+    computeCompartmentProperties,
+    computeTankCalibration,
+    createCompartment
+} from "../scripts/physics/compartments";
+import { generateCompartmentGeometry } from "../scripts/utils/geometry/generators/compartments";
+import { getSortedStations, getSortedWaterlines } from "../scripts/utils/geometry/getters";
+import { exportHullMesh } from "../scripts/io/mesh_export";
+import { buildFEAModel } from "../scripts/io/fea_model";
+import { writeNastranBDF } from "../scripts/io/nastran";
+import { writeAbaqusINP } from "../scripts/io/abaqus";
+import { writeGmshMSH } from "../scripts/io/gmsh";
+import { buildWettedMesh, writeNemohDAT, writeWamitGDF } from "../scripts/io/bem";
+import {
+    computePorcupines,
+    computeVertexCurvature,
+    getCurvatureColors,
+    getCurvatureLegend,
+    getDefaultCurvatureRange
+} from "../scripts/utils/geometry/curvature";
+import { interpolateHullGrid } from "../scripts/utils/geometry/helpers";
+import { createZebraMaterial, updateZebraMaterial } from "../scripts/zebra_material";
 
 /**
  * Main Hull class that manages 3D hull geometry generation, visualization, and physics
@@ -21,30 +51,64 @@ class Hull extends Physics {
     private bowMesh!: THREE.Mesh;
     private deckMesh!: THREE.Mesh;
     private transomMesh!: THREE.Mesh;
+    private keelMesh: THREE.Mesh | null = null; // Keel bar, when the table defines one
 
     private onMeshGenerated: ((mesh: THREE.Object3D) => void)[] = [];
     private waterlinesGroup!: THREE.Group;
     private stationsGroup!: THREE.Group;
+    private sectionalAreaGroup!: THREE.Group;
+    private waterIntersectionGroup!: THREE.Group;
+    private strengthGroup!: THREE.Group;
+    private porcupinesGroup!: THREE.Group;
+    private compartmentsGroup!: THREE.Group;
+    private compartments: Types.Compartment[] = [];
+    private geometryGroups: Types.GeometryGroups | null = null; // Station and waterline face groups of the hull mesh
+    private showWaterIntersectionOverlay = false;
+    private curvatureDisplay: Types.CurvatureDisplayOptions | null = null; // Reapplied when the geometry is regenerated
+    private shellColors: THREE.BufferAttribute | null = null; // Generated vertex colours set aside while curvature is shown
+    private zebraMaterial: THREE.ShaderMaterial | null = null;
+    private shellMaterials = new WeakMap<THREE.Mesh, THREE.Material>(); // Own materials of meshes showing zebra stripes
 
     private lod: THREE.LOD = new THREE.LOD();
 
+    // Attitude the hull is displayed at on the water, null when centred upright
+    private floatingAttitude: Types.EquilibriumResult | null = null;
+    private waterLevel: number = 0;
+
     constructor(quoteTable: Types.QuoteTable, onMeshGenerated: ((mesh: THREE.Object3D) => void)[]) {
         super();
         this.quoteTable = quoteTable;
+        this.weight = quoteTable.metadata.weight;
+        this.thickness = quoteTable.metadata.thickness;
         this.onMeshGenerated = onMeshGenerated.map(func => func.bind(this));
         this.onMeshGenerated.push(this.centerHull.bind(this));
         this.waterlinesGroup = new THREE.Group();
         this.waterlinesGroup.name = 'waterlines';
         this.stationsGroup = new THREE.Group();
         this.stationsGroup.name = 'stations';
+        this.sectionalAreaGroup = new THREE.Group();
+        this.sectionalAreaGroup.name = 'sectionalAreaCurve';
+        this.waterIntersectionGroup = new THREE.Group();
+        this.waterIntersectionGroup.name = 'waterIntersection';
+        this.strengthGroup = new THREE.Group();
+        this.strengthGroup.name = 'longitudinalStrength';
+        this.porcupinesGroup = new THREE.Group();
+        this.porcupinesGroup.name = 'curvaturePorcupines';
+        this.compartmentsGroup = new THREE.Group();
+        this.compartmentsGroup.name = 'compartments';
         stateManager.Debug && console.log("Quote table received:", quoteTable);
         this.generateGeometry();
         stateManager.addObserver(this.updateVisibility.bind(this));
     }
 
-    /** Centers the hull geometry at the world origin for consistent positioning */
+    /** Centers the hull geometry at the world origin, or floats it at the solved attitude */
     public centerHull(): void {
         const hullMesh = this.getFullHullMesh();
+        if (this.floatingAttitude) {
+            getFloatingTransform(this.quoteTable, this.floatingAttitude, stateManager.getUnits(), this.waterLevel)
+                .decompose(hullMesh.position, hullMesh.quaternion, hullMesh.scale);
+            return;
+        }
         const bbox = new THREE.Box3().setFromObject(hullMesh);
         const center = new THREE.Vector3();
         bbox.getCenter(center);
@@ -61,7 +125,7 @@ class Hull extends Physics {
             return;
         }
         const lodLevel: Types.LODConfig = {
-            enableSmoothing: true,
+            ...stateManager.HullDetailLevel,
             stationMultiplier: level,
             waterlineMultiplier: level
         }
@@ -70,6 +134,21 @@ class Hull extends Physics {
         this.regenerateGeometry();
     }
 
+    /**
+     * Sets how the refined hull grid passes through the offsets
+     * @param enabled - False joins offsets with straight lines
+     * @param interpolation - Curve used when enabled, keeps the current one when omitted
+     */
+    public setSmoothing(enabled: boolean, interpolation?: Types.InterpolationScheme): void {
+        stateManager.HullDetailLevel = {
+            ...stateManager.HullDetailLevel,
+            enableSmoothing: enabled,
+            ...(interpolation ? { interpolation } : {})
+        };
+        stateManager.Debug && console.log(`Setting smoothing to: ${enabled ? stateManager.HullDetailLevel.interpolation ?? 'monotone-cubic' : 'off'}`);
+        this.regenerateGeometry();
+    }
+
     /**
      * Gets current LOD configuration
      */
@@ -96,6 +175,585 @@ class Hull extends Physics {
         };
     }
 
+    /** Gets the offset table this hull was generated from */
+    public getQuoteTable(): Types.QuoteTable {
+        return this.quoteTable;
+    }
+
+    /**
+     * Computes hydrostatic properties from the offset table below the given waterplane
+     * @param draft - Draft above the lowest waterline at mid-length, in table units
+     * @param trim - Trim angle in degrees (positive by the stern)
+     * @param heel - Heel angle in degrees (positive to starboard)
+     */
+    public computeHydrostatics(draft: number, trim = 0, heel = 0): Types.HydrostaticProperties {
+        return computeHydrostatics(this.quoteTable, draft, trim, heel);
+    }
+
+    /**
+     * Tabulates upright hydrostatics from the keel to the top waterline
+     * @param steps - Number of drafts in the table
+     */
+    public computeCurvesOfForm(steps = 10): Types.HydrostaticTable {
+        return computeCurvesOfForm(this.quoteTable, steps);
+    }
+
+    /** Converts a world-space point into hull-local coordinates (table coordinates × unit scale) */
+    public worldToHullLocal(point: THREE.Vector3): THREE.Vector3 {
+        const container = this.getFullHullMesh();
+        container.updateMatrixWorld(true);
+        return container.worldToLocal(point.clone());
+    }
+
+    /**
+     * Computes the Bonjean curves of every station, including the stations interpolated for the current detail level
+     * @param steps - Number of draft intervals from the keel to the top waterline
+     */
+    public computeBonjeanCurves(steps = 10): Types.BonjeanCurve[] {
+        return computeBonjeanCurves(this.quoteTable, steps, stateManager.HullDetailLevel);
+    }
+
+    /**
+     * Computes the sectional area curve below a waterplane, including interpolated stations
+     * @param draft - Draft above the lowest waterline at mid-length, in table units
+     * @param trim - Trim angle in degrees (positive by the stern)
+     * @param heel - Heel angle in degrees (positive to starboard)
+     */
+    public computeSectionalAreaCurve(draft: number, trim = 0, heel = 0): Types.SectionalAreaCurve {
+        return computeSectionalAreaCurve(this.quoteTable, draft, trim, heel, stateManager.HullDetailLevel);
+    }
+
+    /**
+     * Draws a sectional area curve along the centreplane of the hull, or removes it when null
+     * Areas are scaled so the largest section reaches the top waterline
+     */
+    public showSectionalAreaCurve(curve: Types.SectionalAreaCurve | null): void {
+        this.sectionalAreaGroup.children.forEach(child => {
+            (child as THREE.Line).geometry.dispose();
+            ((child as THREE.Line).material as THREE.Material).dispose();
+        });
+        this.sectionalAreaGroup.clear();
+        if (!curve || curve.points.length < 2 || curve.maxArea <= 0) return;
+
+        const scale = stateManager.getUnits();
+        const waterlines = getSortedWaterlines(this.quoteTable);
+        const baseline = waterlines.length > 0 ? waterlines[0] : 0;
+        const depth = waterlines.length > 1 ? waterlines[waterlines.length - 1] - baseline : 1;
+
+        const points = curve.points.map(p => new THREE.Vector3(
+            0,
+            baseline + depth * p.area / curve.maxArea,
+            p.position
+        ).multiplyScalar(scale));
+        const baseStart = new THREE.Vector3(0, baseline, curve.points[0].position).multiplyScalar(scale);
+        const baseEnd = new THREE.Vector3(0, baseline, curve.points[curve.points.length - 1].position).multiplyScalar(scale);
+
+        // Draw on top of the hull so the curve stays readable inside the shell
+        const material = new THREE.LineBasicMaterial({ color: 0xff9f43, depthTest: false, transparent: true });
+        const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints([baseStart, ...points, baseEnd]), material);
+        line.name = 'sectional-area';
+        line.renderOrder = 10;
+        this.sectionalAreaGroup.add(line);
+
+        stateManager.Debug && console.log(`📊 Showing sectional area curve at draft ${curve.draft}`);
+    }
+
+    /**
+     * Adds a compartment, replacing any compartment with the same name
+     * Its liquid contents are added to the tank weights right away
+     */
+    public addCompartment(
+        definition: Omit<Types.Compartment, 'fillLevel' | 'liquidDensity'> & Partial<Types.Compartment>
+    ): Types.Compartment {
+        const compartment = createCompartment(definition);
+        this.compartments = [...this.compartments.filter(c => c.name !== compartment.name), compartment];
+        this.updateCompartments();
+        return compartment;
+    }
+
+    /** Removes a compartment by name, returns false when it does not exist */
+    public removeCompartment(name: string): boolean {
+        const count = this.compartments.length;
+        this.compartments = this.compartments.filter(c => c.name !== name);
+        this.updateCompartments();
+        return this.compartments.length < count;
+    }
+
+    /**
+     * Sets the filled fraction of a compartment
+     * @param fillLevel - 0 for empty, 1 for full
+     */
+    public setCompartmentFill(name: string, fillLevel: number): void {
+        const compartment = this.compartments.find(c => c.name === name);
+        if (!compartment) {
+            stateManager.Debug && console.warn(`Compartment ${name} not found`);
+            return;
+        }
+        compartment.fillLevel = THREE.MathUtils.clamp(fillLevel, 0, 1);
+        this.updateCompartments();
+    }
+
+    /** Gets copies of all compartment definitions */
+    public getCompartments(): Types.Compartment[] {
+        return this.compartments.map(c => ({ ...c }));
+    }
+
+    /** Computes capacity, contents, centroids and free-surface moment of every compartment */
+    public computeCompartments(): Types.CompartmentProperties[] {
+        return this.compartments.map(c => computeCompartmentProperties(this.quoteTable, c));
+    }
+
+    /**
+     * Tabulates a compartment's contents against sounding
+     * @param steps - Number of equal sounding intervals
+     */
+    public computeTankCalibration(name: string, steps = 10): Types.TankCalibrationRow[] {
+        const compartment = this.compartments.find(c => c.name === name);
+        return compartment ? computeTankCalibration(this.quoteTable, compartment, steps) : [];
+    }
+
+    /** Gets the virtual rise of G from all slack tanks in table units (sum of free-surface moments over displacement) */
+    public getFreeSurfaceCorrection(): number {
+        const total = this.getTotalWeight();
+        if (total <= 0) return 0;
+        const moment = this.computeCompartments().reduce((sum, c) => sum + c.freeSurfaceMoment, 0);
+        return moment / total / stateManager.getUnits();
+    }
+
+    /** Gets the fill level of every compartment by name */
+    protected getFillLevels(): Record<string, number> {
+        return Object.fromEntries(this.compartments.map(c => [c.name, c.fillLevel]));
+    }
+
+    /** Applies fill levels by compartment name; compartments not listed are emptied */
+    protected applyFillLevels(fillLevels: Record<string, number>): void {
+        this.compartments.forEach(c => {
+            c.fillLevel = THREE.MathUtils.clamp(fillLevels[c.name] ?? 0, 0, 1);
+        });
+        this.updateCompartments();
+    }
+
+    /**
+     * Solves equilibrium, and optionally the GZ curve, for every loading condition
+     * The active condition is restored afterwards
+     * @param stability - GZ curve options, or false to skip the curve
+     */
+    public computeLoadingConditions(stability: StabilityOptions | false = false): Types.LoadingConditionResult[] {
+        const active = this.getActiveLoadingCondition();
+        const results = this.getLoadingConditionNames().map(name => {
+            this.setLoadingCondition(name);
+            return {
+                condition: name,
+                mass: this.getTotalWeight(),
+                centerOfGravity: this.getCenterOfGravityInTable(),
+                freeSurfaceCorrection: this.getFreeSurfaceCorrection(),
+                equilibrium: this.solveEquilibrium(),
+                stability: stability ? this.computeGZCurve(stability) : null
+            };
+        });
+        this.setLoadingCondition(active);
+        return results;
+    }
+
+    /** Refreshes tank weights in Physics and redraws the compartment volumes */
+    private updateCompartments(): void {
+        const scale = stateManager.getUnits();
+        const properties = this.computeCompartments();
+        this.setTankWeights(properties.filter(p => p.liquidMass > 0).map(p => ({
+            position: p.liquidCentroid.clone().multiplyScalar(scale),
+            magnitude: p.liquidMass
+        })));
+
+        this.compartmentsGroup.traverse(child => {
+            if (child instanceof THREE.Mesh) {
+                child.geometry.dispose();
+                (child.material as THREE.Material).dispose();
+            }
+        });
+        this.compartmentsGroup.clear();
+
+        const colors: Record<Types.CompartmentSide, number> = { port: 0xff6b6b, starboard: 0x2ed573, centre: 0xffa502 };
+        this.compartments.forEach((compartment, i) => {
+            const volume = new THREE.Mesh(
+                generateCompartmentGeometry(this.quoteTable, compartment),
+                new THREE.MeshStandardMaterial({
+                    color: colors[compartment.side],
+                    transparent: true,
+                    opacity: 0.25,
+                    depthWrite: false,
+                    side: THREE.DoubleSide
+                })
+            );
+            volume.name = `compartment-${compartment.name}`;
+            this.compartmentsGroup.add(volume);
+
+            if (properties[i].liquidVolume > 0) {
+                const liquid = new THREE.Mesh(
+                    generateCompartmentGeometry(this.quoteTable, compartment, properties[i].liquidHeight),
+                    new THREE.MeshStandardMaterial({
+                        color: 0x1e90ff,
+                        transparent: true,
+                        opacity: 0.55,
+                        depthWrite: false,
+                        side: THREE.DoubleSide
+                    })
+                );
+                liquid.name = `compartment-${compartment.name}-liquid`;
+                this.compartmentsGroup.add(liquid);
+            }
+        });
+    }
+
+    /**
+     * Splits the base weight over the shell faces of the hull, bow, transom and deck
+     * With a material density each face weighs area × thickness × density and a keel bar, being solid, adds its
+     * volume × density at its centroid; otherwise the metadata weight is spread by area
+     * @returns Face weights in hull-local coordinates and the shell area in table units²
+     */
+    public getShellWeights(): { weights: Types.Weight[]; area: number } {
+        const scale = stateManager.getUnits();
+        const meshes = [this.hullMesh, this.bowMesh, this.transomMesh, this.deckMesh].filter(mesh => mesh);
+        const faces = getShellFaces(meshes);
+        const totalArea = faces.reduce((sum, face) => sum + face.area, 0);
+
+        const weights = faces.map(face => ({
+            position: face.center,
+            magnitude: this.materialDensity !== null
+                ? face.area * this.thickness * scale * this.materialDensity
+                : (totalArea > 0 ? this.weight * face.area / totalArea : 0)
+        }));
+
+        const keel = this.materialDensity !== null ? computeKeelVolume(this.quoteTable) : null;
+        if (keel && keel.volume > 0) {
+            weights.push({
+                position: keel.centroid.multiplyScalar(scale),
+                magnitude: keel.volume * Math.pow(scale, 3) * this.materialDensity!
+            });
+        }
+
+        return { weights, area: totalArea / (scale * scale) };
+    }
+
+    /**
+     * Sets the shell material density and derives the base weight from it
+     * @param density - Density in kg/m³, or null to go back to the weight given in the table metadata
+     */
+    public setMaterialDensity(density: number | null): void {
+        this.materialDensity = density;
+        this.weight = density !== null
+            ? this.getShellWeights().weights.reduce((sum, w) => sum + w.magnitude, 0)
+            : this.quoteTable.metadata.weight;
+        stateManager.Debug && console.log(`⚖️ Shell weight set to ${this.weight.toFixed(2)} kg`);
+    }
+
+    /**
+     * Computes mass, centre of gravity, inertia and radii of gyration in table coordinates
+     * Combines the shell with painted and custom weights
+     */
+    public computeMassProperties(): Types.MassProperties {
+        const shell = this.getShellWeights();
+        const shellMass = shell.weights.reduce((sum, w) => sum + w.magnitude, 0);
+        return computeMassProperties(this.getWeightsInTable(shell.weights), shellMass, shell.area);
+    }
+
+    /** Gets shell, painted, custom and tank weights as point masses in table coordinates */
+    private getWeightsInTable(shellWeights: Types.Weight[] = this.getShellWeights().weights): Types.Weight[] {
+        const scale = stateManager.getUnits();
+        return [...shellWeights, ...this.getPaintedWeights(), ...this.customWeights, ...this.getTankWeights()].map(w => ({
+            position: w.position.clone().divideScalar(scale),
+            magnitude: w.magnitude
+        }));
+    }
+
+    /**
+     * Computes still-water load, shear force and bending moment curves along the length
+     * Uses the displayed floating attitude, or the solved equilibrium when the hull is upright
+     */
+    public computeLongitudinalStrength(options: StrengthOptions = {}): Types.LongitudinalStrength {
+        const attitude = this.floatingAttitude ?? this.solveEquilibrium();
+        return computeLongitudinalStrength(this.quoteTable, this.getWeightsInTable(), attitude, options);
+    }
+
+    /**
+     * Draws shear force and bending moment diagrams above the deck along the centreplane, or removes them when null
+     * Each curve is scaled to half the hull depth at its largest absolute value
+     */
+    public showLongitudinalStrength(strength: Types.LongitudinalStrength | null): void {
+        this.strengthGroup.children.forEach(child => {
+            (child as THREE.Line).geometry.dispose();
+            ((child as THREE.Line).material as THREE.Material).dispose();
+        });
+        this.strengthGroup.clear();
+        if (!strength || strength.points.length < 2) return;
+
+        const scale = stateManager.getUnits();
+        const waterlines = getSortedWaterlines(this.quoteTable);
+        const top = waterlines.length > 0 ? waterlines[waterlines.length - 1] : 0;
+        const depth = waterlines.length > 1 ? top - waterlines[0] : 1;
+        const axis = top + depth * 0.75;
+        const first = strength.points[0].position;
+        const last = strength.points[strength.points.length - 1].position;
+
+        const addLine = (name: string, points: THREE.Vector3[], color: number) => {
+            const line = new THREE.Line(
+                new THREE.BufferGeometry().setFromPoints(points.map(p => p.multiplyScalar(scale))),
+                new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+            );
+            line.name = name;
+            line.renderOrder = 10;
+            this.strengthGroup.add(line);
+        };
+
+        addLine('strength-axis', [new THREE.Vector3(0, axis, first), new THREE.Vector3(0, axis, last)], 0x888888);
+
+        const curves: ['shearForce' | 'bendingMoment', number][] = [['shearForce', 0x1e90ff], ['bendingMoment', 0xff4757]];
+        curves.forEach(([key, color]) => {
+            const peak = strength.points.reduce((max, p) => Math.max(max, Math.abs(p[key])), 0);
+            if (peak <= 0) return;
+            addLine(`strength-${key}`, strength.points.map(p =>
+                new THREE.Vector3(0, axis + depth * 0.5 * p[key] / peak, p.position)
+            ), color);
+        });
+
+        stateManager.Debug && console.log('🏗️ Showing shear force and bending moment diagrams');
+    }
+
+    /**
+     * Computes Gaussian, mean and principal curvatures at every vertex of the hull mesh
+     * Values are per table unit, so they match offsets in the table's own units
+     */
+    public computeCurvature(): Types.VertexCurvature | null {
+        if (!this.hullMesh) return null;
+        return computeVertexCurvature(this.hullMesh.geometry, stateManager.getUnits());
+    }
+
+    /**
+     * Colours the hull by curvature, or goes back to the plain shell when null
+     * The display is kept across regeneration, so changing the detail level or smoothing recolours the new mesh
+     * @returns Legend of the colour scale, null when the display is off
+     */
+    public showCurvature(options: Types.CurvatureDisplayOptions | null): Types.CurvatureLegend | null {
+        this.curvatureDisplay = options;
+        if (!this.hullMesh) return null;
+
+        const geometry = this.hullMesh.geometry;
+        const material = this.getShellMaterial(this.hullMesh) as THREE.MeshStandardMaterial;
+        if (!options) {
+            if (material.vertexColors) {
+                if (this.shellColors) geometry.setAttribute('color', this.shellColors);
+                else geometry.deleteAttribute('color');
+                this.shellColors = null;
+                material.vertexColors = false;
+                material.color.set(0xe0e0e0);
+                material.needsUpdate = true;
+            }
+            return null;
+        }
+
+        const type = options.type ?? 'gaussian';
+        const values = computeVertexCurvature(geometry, stateManager.getUnits())[type];
+        const range = options.range ?? getDefaultCurvatureRange(values);
+        if (!material.vertexColors) this.shellColors = (geometry.getAttribute('color') as THREE.BufferAttribute) ?? null;
+        geometry.setAttribute('color', new THREE.BufferAttribute(getCurvatureColors(values, range), 3));
+        material.vertexColors = true;
+        material.color.set(0xffffff);
+        material.needsUpdate = true;
+
+        stateManager.Debug && console.log(`🌈 Showing ${type} curvature from ${range[0].toPrecision(3)} to ${range[1].toPrecision(3)}`);
+        return getCurvatureLegend(type, range);
+    }
+
+    /**
+     * Computes curvature porcupines along the station and waterline curves of the generated hull grid
+     * Inflections along a curve point at offsets that need fairing
+     */
+    public computePorcupines(): Types.PorcupineCurve[] {
+        const lod = stateManager.HullDetailLevel;
+        const refined = lod.stationMultiplier > 1 || lod.waterlineMultiplier > 1;
+        return computePorcupines(refined ? interpolateHullGrid(this.quoteTable, lod) : this.quoteTable);
+    }
+
+    /**
+     * Draws curvature porcupines on the hull, or removes them when null
+     * Spines run along the curve normal in proportion to the signed curvature and are joined by an envelope;
+     * the largest curvature over all curves reaches a quarter of the hull depth.
+     */
+    public showPorcupines(curves: Types.PorcupineCurve[] | null): void {
+        this.porcupinesGroup.children.forEach(child => {
+            (child as THREE.Line).geometry.dispose();
+            ((child as THREE.Line).material as THREE.Material).dispose();
+        });
+        this.porcupinesGroup.clear();
+        if (!curves || curves.length === 0) return;
+
+        const peak = curves.reduce((max, c) => Math.max(max, c.maxCurvature), 0);
+        if (peak <= 0) return;
+
+        const scale = stateManager.getUnits();
+        const waterlines = getSortedWaterlines(this.quoteTable);
+        const depth = waterlines.length > 1 ? waterlines[waterlines.length - 1] - waterlines[0] : 1;
+        const length = depth * 0.25 / peak;
+
+        curves.forEach(curve => {
+            if (curve.points.length === 0) return;
+            const color = curve.kind === 'station' ? 0xe056fd : 0x22a6b3;
+            const tips = curve.points.map(p => p.position.clone().addScaledVector(p.normal, p.curvature * length).multiplyScalar(scale));
+            const spines = curve.points.flatMap((p, i) => [p.position.clone().multiplyScalar(scale), tips[i]]);
+
+            const addLine = (line: THREE.Line, name: string) => {
+                line.name = name;
+                line.renderOrder = 10;
+                this.porcupinesGroup.add(line);
+            };
+            const name = `porcupine-${curve.kind}-${curve.side}-${curve.value}`;
+            addLine(new THREE.LineSegments(
+                new THREE.BufferGeometry().setFromPoints(spines),
+                new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true, opacity: 0.6 })
+            ), `${name}-spines`);
+            addLine(new THREE.Line(
+                new THREE.BufferGeometry().setFromPoints(tips),
+                new THREE.LineBasicMaterial({ color, depthTest: false, transparent: true })
+            ), `${name}-envelope`);
+        });
+
+        stateManager.Debug && console.log(`🦔 Showing curvature porcupines on ${curves.length} curves`);
+    }
+
+    /**
+     * Gets the centre of gravity of all weights in table coordinates
+     * The base weight sits at the area centroid of the shell, or mid-length on the centreline before meshing
+     */
+    public getCenterOfGravityInTable(): THREE.Vector3 {
+        const scale = stateManager.getUnits();
+        const shell = this.getShellWeights().weights;
+        const shellMass = shell.reduce((sum, w) => sum + w.magnitude, 0);
+
+        let baseCenter: THREE.Vector3;
+        if (shellMass > 0) {
+            baseCenter = shell.reduce((sum, w) => sum.addScaledVector(w.position, w.magnitude), new THREE.Vector3())
+                .divideScalar(shellMass);
+        } else {
+            const stations = getSortedStations(this.quoteTable);
+            const waterlines = getSortedWaterlines(this.quoteTable);
+            baseCenter = new THREE.Vector3(
+                0,
+                waterlines.length > 0 ? (waterlines[0] + waterlines[waterlines.length - 1]) / 2 : 0,
+                stations.length > 0 ? (stations[0].position + stations[stations.length - 1].position) / 2 : 0
+            ).multiplyScalar(scale);
+        }
+        return this.getCenterOfGravity(baseCenter).divideScalar(scale);
+    }
+
+    /**
+     * Solves the free-floating draft, trim and heel for the current weights
+     * Buoyancy balances the total weight with B vertically above G
+     */
+    public solveEquilibrium(): Types.EquilibriumResult {
+        return solveEquilibrium(this.quoteTable, this.getTotalWeight(), this.getCenterOfGravityInTable());
+    }
+
+    /**
+     * Computes the large-angle righting-arm (GZ) curve for the current weights
+     * The hull is heeled at constant displacement with the centre of gravity from Physics, corrected for slack tanks
+     */
+    public computeGZCurve(options: StabilityOptions = {}): Types.StabilityCurve {
+        return computeGZCurve(this.quoteTable, this.getTotalWeight(), this.getCenterOfGravityInTable(), {
+            freeSurfaceCorrection: this.getFreeSurfaceCorrection(),
+            ...options
+        });
+    }
+
+    /**
+     * Places the hull container at a floating attitude with its waterplane on the water surface
+     * @param attitude - Draft, trim and heel to display, usually from solveEquilibrium
+     * @param waterLevel - World height of the water surface
+     */
+    public placeAtAttitude(attitude: Types.EquilibriumResult, waterLevel = 0): void {
+        this.floatingAttitude = attitude;
+        this.waterLevel = waterLevel;
+        this.centerHull();
+        this.updateWaterIntersectionOverlay();
+    }
+
+    /** Returns the hull to its upright, centred display position */
+    public clearAttitude(): void {
+        this.floatingAttitude = null;
+        const hullMesh = this.getFullHullMesh();
+        hullMesh.position.set(0, 0, 0);
+        hullMesh.quaternion.identity();
+        hullMesh.updateMatrixWorld(true);
+        this.centerHull();
+        this.updateWaterIntersectionOverlay();
+    }
+
+    /**
+     * Cuts the hull, bow, transom, deck and keel meshes with the waterplane of an attitude
+     * Defaults to the displayed floating attitude, or the solved equilibrium when the hull is upright
+     */
+    public computeWaterIntersection(attitude?: { draft: number; trim: number; heel: number }): Types.WaterIntersectionData {
+        const meshes = [this.hullMesh, this.bowMesh, this.transomMesh, this.deckMesh, this.keelMesh]
+            .filter((mesh): mesh is THREE.Mesh => !!mesh);
+        return computeWaterIntersection(
+            this.quoteTable,
+            meshes,
+            attitude ?? this.floatingAttitude ?? this.solveEquilibrium(),
+            stateManager.getUnits()
+        );
+    }
+
+    /** Shows or hides the waterline loop with centre of buoyancy and centre of flotation markers */
+    public setWaterIntersectionVisible(visible: boolean): void {
+        this.showWaterIntersectionOverlay = visible;
+        this.updateWaterIntersectionOverlay();
+    }
+
+    /** Rebuilds the waterline overlay for the current attitude, or clears it when hidden */
+    private updateWaterIntersectionOverlay(): void {
+        this.waterIntersectionGroup.traverse(child => {
+            if (child instanceof THREE.Line || child instanceof THREE.Mesh) {
+                child.geometry.dispose();
+                (child.material as THREE.Material).dispose();
+            }
+        });
+        this.waterIntersectionGroup.clear();
+        if (!this.showWaterIntersectionOverlay || !this.hullMesh) return;
+
+        const data = this.computeWaterIntersection();
+
+        // Overlays draw on top of the shell and the water surface
+        data.loops.forEach((loop, i) => {
+            const line = new THREE.LineLoop(
+                new THREE.BufferGeometry().setFromPoints(loop),
+                new THREE.LineBasicMaterial({ color: 0x00e5ff, depthTest: false, transparent: true })
+            );
+            line.name = `waterline-cut-${i}`;
+            line.renderOrder = 10;
+            this.waterIntersectionGroup.add(line);
+        });
+
+        const bounds = new THREE.Box3().setFromObject(this.hullMesh);
+        const radius = Math.max(bounds.getSize(new THREE.Vector3()).length() * 0.008, 1e-3);
+        const markers: [string, THREE.Vector3, number][] = [
+            ['center-of-buoyancy', data.buoyancyCenter, 0xff4757],
+            ['center-of-flotation', data.centerOfFloatation, 0x2ed573]
+        ];
+        markers.forEach(([name, position, color]) => {
+            const marker = new THREE.Mesh(
+                new THREE.SphereGeometry(radius, 16, 12),
+                new THREE.MeshBasicMaterial({ color, depthTest: false, transparent: true })
+            );
+            marker.name = name;
+            marker.position.copy(position);
+            marker.renderOrder = 11;
+            this.waterIntersectionGroup.add(marker);
+        });
+    }
+
+    /** Gets the attitude the hull is currently displayed at, null when upright */
+    public getFloatingAttitude(): Types.EquilibriumResult | null {
+        return this.floatingAttitude;
+    }
+
     /**
      * Regenerates geometry with current LOD settings and cleans up old resources
      */
@@ -107,7 +765,7 @@ class Hull extends Physics {
             this.hullContainer.remove(this.lod);
             this.lod.levels.forEach(level => {
                 (level.object as THREE.Mesh).geometry.dispose();
-                const material = (level.object as THREE.Mesh).material as THREE.Material;
+                const material = this.getShellMaterial(level.object as THREE.Mesh);
                 if (Array.isArray(material)) {
                     material.forEach(mat => mat.dispose());
                 } else {
@@ -166,9 +824,11 @@ class Hull extends Physics {
         this.hullMesh.castShadow = true;
         this.hullMesh.receiveShadow = true;
         this.hullMesh.name = 'hull';
+        this.geometryGroups = data.groups as Types.GeometryGroups;
 
         // --- Create LOD levels for rendering optimization ---
         this.createLODLevels(geometry);
+        if (this.curvatureDisplay) this.showCurvature(this.curvatureDisplay);
 
         // --- Create other hull components ---
         this.createWaterlineOverlays(data);
@@ -176,6 +836,11 @@ class Hull extends Physics {
         this.createDeck(data);
         this.createTransom(data);
         this.createBow(data);
+        this.createKeel(data);
+
+        // --- Keep a density-derived shell weight in step with the new surface ---
+        if (this.materialDensity !== null) this.setMaterialDensity(this.materialDensity);
+        this.updateWaterIntersectionOverlay();
 
         // --- Update visibility & notify ---
         this.updateVisibility();
@@ -227,19 +892,55 @@ class Hull extends Physics {
         if (this.lod) {
             this.lod.visible = stateManager.ShowHull;
             this.lod.levels.forEach(level => {
-                const mat = (level.object as THREE.Mesh).material as THREE.MeshStandardMaterial;
+                const mat = this.getShellMaterial(level.object as THREE.Mesh) as THREE.MeshStandardMaterial;
                 mat.wireframe = stateManager.WireframeActive;
             });
         }
+        this.updateZebraStripes();
 
         // Other hull parts visibility
         if (this.transomMesh) this.transomMesh.visible = stateManager.ShowHull;
         if (this.bowMesh) this.bowMesh.visible = stateManager.ShowHull;
+        if (this.keelMesh) this.keelMesh.visible = stateManager.ShowHull;
         if (this.deckMesh) this.deckMesh.visible = stateManager.ShowDeck;
         if (this.stationsGroup) this.stationsGroup.visible = stateManager.ShowStations;
         if (this.waterlinesGroup) this.waterlinesGroup.visible = stateManager.ShowWaterlines;
     }
 
+    /** Gets the material a mesh was created with, also while zebra stripes are shown in its place */
+    private getShellMaterial(mesh: THREE.Mesh): THREE.Material {
+        return this.shellMaterials.get(mesh) ?? mesh.material as THREE.Material;
+    }
+
+    /** Swaps the zebra stripe material onto the hull, bow, transom and keel meshes, or gives them their own back */
+    private updateZebraStripes() {
+        const meshes = [
+            ...this.lod.levels.map(level => level.object as THREE.Mesh),
+            this.bowMesh,
+            this.transomMesh,
+            this.keelMesh
+        ].filter((mesh): mesh is THREE.Mesh => !!mesh);
+
+        if (stateManager.ZebraStripesActive) {
+            if (!this.zebraMaterial) this.zebraMaterial = createZebraMaterial(stateManager.ZebraStripes);
+            updateZebraMaterial(this.zebraMaterial, stateManager.ZebraStripes);
+            this.zebraMaterial.wireframe = stateManager.WireframeActive;
+            meshes.forEach(mesh => {
+                if (this.shellMaterials.has(mesh)) return;
+                this.shellMaterials.set(mesh, mesh.material as THREE.Material);
+                mesh.material = this.zebraMaterial!;
+            });
+            return;
+        }
+
+        meshes.forEach(mesh => {
+            const material = this.shellMaterials.get(mesh);
+            if (!material) return;
+            mesh.material = material;
+            this.shellMaterials.delete(mesh);
+        });
+    }
+
     /** Creates waterline overlay visualization for hull cross-sections */
     private createWaterlineOverlays(data: Types.HullGeometry) {
         if (!data.waterlinePoints) return;
@@ -355,11 +1056,80 @@ class Hull extends Physics {
             bowMesh: this.bowMesh,
             transomMesh: this.transomMesh,
             deckMesh: this.deckMesh,
+            keelMesh: this.keelMesh,
             stationsMesh: this.stationsGroup,
             waterlines: this.waterlinesGroup
         }
     }
 
+    /**
+     * Exports the hull, deck, bow, transom and keel surfaces to STL, OBJ or glTF
+     * Coordinates are hull-local, converted to the offset table units unless options.units says otherwise
+     */
+    public exportMesh(format: Types.MeshExportFormat, options: Types.MeshExportOptions = {}): Promise<string | ArrayBuffer> {
+        const { hullMesh, deckMesh, bowMesh, transomMesh, keelMesh } = this.getSeparatedHullMesh();
+        return exportHullMesh(
+            { hull: hullMesh, deck: deckMesh, bow: bowMesh, transom: transomMesh, keel: keelMesh },
+            this.quoteTable.metadata.units,
+            format,
+            options
+        );
+    }
+
+    /**
+     * Builds a shell-element model of the hull surfaces with painted and custom weights as point masses
+     * Shell thickness comes from the offset table metadata
+     */
+    public buildFEAModel(options: Types.FEAExportOptions = {}): Types.FEAModel {
+        const { hullMesh, deckMesh, bowMesh, transomMesh, keelMesh } = this.getSeparatedHullMesh();
+        return buildFEAModel(
+            { hull: hullMesh, deck: deckMesh, bow: bowMesh, transom: transomMesh, keel: keelMesh },
+            this.quoteTable.metadata.units,
+            this.thickness,
+            { painted: this.getPaintedWeights(), custom: this.customWeights },
+            options
+        );
+    }
+
+    /** Writes the FEA model as a Nastran bulk data deck (.bdf) */
+    public exportNastran(options: Types.FEAExportOptions = {}): string {
+        return writeNastranBDF(this.buildFEAModel(options));
+    }
+
+    /**
+     * Writes the FEA model as an Abaqus input file (.inp)
+     * Hull elements are also collected into per-station and per-waterline element sets
+     */
+    public exportAbaqus(options: Types.FEAExportOptions = {}): string {
+        return writeAbaqusINP(this.buildFEAModel(options), this.geometryGroups ?? undefined);
+    }
+
+    /** Writes the FEA model as a Gmsh v4 mesh (.msh) with one physical group per component */
+    public exportGmsh(options: Types.FEAExportOptions = {}): string {
+        return writeGmshMSH(this.buildFEAModel(options));
+    }
+
+    /**
+     * Cuts the wetted surface below the waterplane of an attitude as a panel mesh for seakeeping codes
+     * Defaults to the displayed floating attitude, or the solved equilibrium when the hull is upright
+     */
+    public buildWettedMesh(options: Types.BEMExportOptions = {}): Types.BEMMesh {
+        const meshes = [this.hullMesh, this.bowMesh, this.transomMesh, this.deckMesh, this.keelMesh]
+            .filter((mesh): mesh is THREE.Mesh => !!mesh);
+        return buildWettedMesh(
+            this.quoteTable,
+            meshes,
+            options.attitude ?? this.floatingAttitude ?? this.solveEquilibrium(),
+            options
+        );
+    }
+
+    /** Writes the wetted surface as a WAMIT geometry file (.gdf) or a NEMOH mesh (.dat) */
+    public exportBEM(format: Types.BEMExportFormat, options: Types.BEMExportOptions = {}): string {
+        const mesh = this.buildWettedMesh(options);
+        return format === 'wamit' ? writeWamitGDF(mesh) : writeNemohDAT(mesh);
+    }
+
     /** Creates transom (stern) surface visualization */
     private createTransom(data: Types.HullGeometry) {
         if (!data.transomPoints || data.transomPoints.length < 3) return;
@@ -432,6 +1202,36 @@ class Hull extends Physics {
         this.bowMesh.name = 'bow';
     }
 
+    /**
+     * Creates the keel bar below the hull bottom
+     * The old bar is dropped from the hull assembly and disposed, so a table without a keel leaves none behind
+     */
+    private createKeel(data: Types.HullGeometry) {
+        if (this.keelMesh) {
+            this.hullContainer?.remove(this.keelMesh);
+            this.keelMesh.geometry.dispose();
+            this.getShellMaterial(this.keelMesh).dispose();
+            this.keelMesh = null;
+        }
+        if (!data.keelPoints || data.keelPoints.length < 3 || !data.keelIndices) return;
+
+        const geometry = new THREE.BufferGeometry().setFromPoints(data.keelPoints);
+        geometry.setIndex(new THREE.BufferAttribute(data.keelIndices, 1));
+        geometry.computeVertexNormals();
+
+        this.keelMesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({
+            color: 0x8d6e63,
+            wireframe: stateManager.WireframeActive,
+            side: THREE.DoubleSide,
+            roughness: 0.7,
+            metalness: 0.1
+        }));
+        this.keelMesh.castShadow = true;
+        this.keelMesh.receiveShadow = true;
+        this.keelMesh.name = 'keel';
+        this.hullContainer?.add(this.keelMesh);
+    }
+
     /** Notifies all registered callbacks that mesh generation is complete */
     private notifyMeshGenerated() {
         this.onMeshGenerated.forEach(func => func(this.getFullHullMesh()));
@@ -445,9 +1245,15 @@ class Hull extends Physics {
             this.hullContainer.add(this.lod);
             this.hullContainer.add(this.waterlinesGroup);
             this.hullContainer.add(this.stationsGroup);
+            this.hullContainer.add(this.sectionalAreaGroup);
+            this.hullContainer.add(this.waterIntersectionGroup);
+            this.hullContainer.add(this.strengthGroup);
+            this.hullContainer.add(this.porcupinesGroup);
+            this.hullContainer.add(this.compartmentsGroup);
             if (this.deckMesh) this.hullContainer.add(this.deckMesh);
             if (this.transomMesh) this.hullContainer.add(this.transomMesh);
             if (this.bowMesh) this.hullContainer.add(this.bowMesh);
+            if (this.keelMesh) this.hullContainer.add(this.keelMesh);
         }
         return this.hullContainer;
     }
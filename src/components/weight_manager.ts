@@ -116,6 +116,8 @@ export default class WeightManager {
     /** Sets the hull reference for weight application */
     setHull(hull: Hull) {
         this.hull = hull;
+        // Markers live in the hull container so they follow the hull when it floats
+        hull.getFullHullMesh().add(this.weightMarkers);
         this.paintSelectionTool.setHull(hull);
         stateManager.Debug && console.log('✅ Hull set in WeightManager');
     }
@@ -126,6 +128,11 @@ export default class WeightManager {
         stateManager.Debug && console.log(`⚖️ Weight per face set to: ${weight} kg`);
     }
 
+    /** Gets the weight value applied per selected face */
+    getWeightPerFace(): number {
+        return this.weightPerFace;
+    }
+
     /** Sets the brush size for weight painting selection */
     setBrushSize(size: number) {
         this.paintSelectionTool.setBrushSize(size);
@@ -136,7 +143,8 @@ export default class WeightManager {
      * @returns True if weights were successfully applied, false otherwise
      */
     applyWeightToSelection(): boolean {
-        if (!this.hull) {
+        const hull = this.hull;
+        if (!hull) {
             stateManager.Debug && console.warn('No hull available');
             return false;
         }
@@ -149,18 +157,18 @@ export default class WeightManager {
 
         const weights: Weight[] = [];
         
-        // Convert selected faces to weight objects
+        // Convert selected faces to weight objects in hull-local coordinates
         faceData.forEach((data, faceId) => {
             if (this.paintSelectionTool.selectedFaces.has(faceId)) {
                 weights.push({
-                    position: data.worldCenter,
+                    position: hull.worldToHullLocal(data.worldCenter),
                     magnitude: this.weightPerFace
                 });
             }
         });
 
         // Apply weights to hull physics system
-        this.hull.setPaintedWeights(weights);
+        hull.setPaintedWeights(weights);
         
         // Create visual markers for the applied weights
         this.createWeightMarkers(weights);
@@ -193,6 +201,11 @@ export default class WeightManager {
         stateManager.Debug && console.log(`📌 Created ${weights.length} weight markers`);
     }
 
+    /** Redraws the markers from the hull's painted weights, e.g. after switching loading condition */
+    refreshWeightMarkers() {
+        this.createWeightMarkers(this.hull ? this.hull.getPaintedWeights() : []);
+    }
+
     /** Clears all weight visualization markers */
     private clearWeightMarkers() {
         // Remove all existing markers and clean up resources
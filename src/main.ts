@@ -10,6 +10,15 @@ import ThreeHelper from "./scripts/three_helper";
 import MouseHelper from "./scripts/utils/controls/mouse_helper";
 import { PaintSelectionTool } from "./scripts/utils/controls/paint_selection_tool";
 import KeyboardHelper from "./scripts/utils/controls/keyborad_helper";
+import { hydrostaticTableToCSV, hydrostaticTableToJSON } from "./scripts/physics/curves_of_form";
+import type { StabilityOptions } from "./scripts/physics/stability";
+import type { StrengthOptions } from "./scripts/physics/longitudinal_strength";
+import { offsetsToCSV, parseOffsetsCSV } from "./scripts/io/offsets_csv";
+import { validateQuoteTable } from "./scripts/utils/geometry/validators";
+import { normalizeQuoteTable } from "./scripts/utils/geometry/helpers";
+import { parseLinesPlanDXF } from "./scripts/io/dxf";
+import { convertQuoteTable, formatFeetInchesEighths, parseFeetInchesEighths } from "./scripts/io/units";
+import { fromProjectWeights, parseProject, PROJECT_FORMAT, PROJECT_VERSION, toProjectWeights } from "./scripts/io/project";
 
 class HullVisualizer {
   private canvasRef: HTMLCanvasElement;
@@ -26,6 +35,8 @@ class HullVisualizer {
 
   weightManager?: WeightManager;
   private isAltPressed = false;
+  private isFloating = false;
+  private waterIntersectionVisible = false;
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvasRef = canvas;
@@ -207,7 +218,7 @@ class HullVisualizer {
   private getVisibleHullMeshesForSelection(): THREE.Object3D[] {
     if (!this.hull) return [];
 
-    const { hullMesh, transomMesh, bowMesh, deckMesh, stationsMesh } = this.hull.getSeparatedHullMesh();
+    const { hullMesh, transomMesh, bowMesh, keelMesh, deckMesh, stationsMesh } = this.hull.getSeparatedHullMesh();
     const meshes: THREE.Object3D[] = [];
 
     // Helper function to check if mesh is visible in the scene hierarchy
@@ -227,6 +238,7 @@ class HullVisualizer {
       if (isMeshVisible(hullMesh)) meshes.push(hullMesh);
       if (transomMesh && isMeshVisible(transomMesh)) meshes.push(transomMesh);
       if (bowMesh && isMeshVisible(bowMesh)) meshes.push(bowMesh);
+      if (keelMesh && isMeshVisible(keelMesh)) meshes.push(keelMesh);
     }
 
     if (stateManager.ShowDeck && deckMesh && isMeshVisible(deckMesh)) {
@@ -288,7 +300,33 @@ class HullVisualizer {
     }
   }
 
-  loadHullFromQuoteTable(quoteTable: Types.QuoteTable) {
+  /**
+   * Load a hull from an offset table
+   * With validation 'warn' every diagnostic is logged in debug mode and the hull still loads;
+   * with 'reject' nothing is loaded when the table has errors
+   * With grid options the table is resampled onto common waterlines (and station spacing) before loading,
+   * so hydrostatics and exports work on the same grid as the mesh
+   * Returns the validation, or null when validation is off
+   */
+  loadHullFromQuoteTable(
+    quoteTable: Types.QuoteTable,
+    options: { validation?: Types.QuoteTableValidationMode; grid?: Types.GridNormalizationOptions } = {}
+  ): Types.QuoteTableValidation | null {
+    const mode = options.validation ?? 'off';
+    const validation = mode === 'off' ? null : validateQuoteTable(quoteTable);
+
+    if (validation) {
+      validation.diagnostics.forEach(d => stateManager.Debug && console.warn(`⚠️ [${d.severity}] ${d.code}: ${d.message}`));
+      if (mode === 'reject' && !validation.valid) {
+        stateManager.Debug && console.warn('❌ Offset table rejected, hull not loaded');
+        return validation;
+      }
+    }
+
+    if (options.grid) {
+      quoteTable = normalizeQuoteTable(quoteTable, options.grid);
+    }
+
     // Remove existing hull if any
     if (this.hull) {
       this.threeHelper.removeFromScene(this.hull.getFullHullMesh());
@@ -326,6 +364,189 @@ class HullVisualizer {
         this.paintSelectionTool
       );
     }
+
+    // Keep the new hull floating if floating mode was on
+    if (this.isFloating) {
+      this.floatHull();
+    }
+    this.hull.setWaterIntersectionVisible(this.waterIntersectionVisible);
+    return validation;
+  }
+
+  /**
+   * Export the hull surfaces for CAD, CFD or 3D printing
+   * Binary STL and GLB resolve to an ArrayBuffer, the other formats to text
+   */
+  exportMesh(format: Types.MeshExportFormat, options: Types.MeshExportOptions = {}): Promise<string | ArrayBuffer> | null {
+    return this.hull ? this.hull.exportMesh(format, options) : null;
+  }
+
+  /**
+   * Export the hull as a Nastran bulk data deck for structural analysis
+   * Shells use the table thickness; painted and custom weights become CONM2 point masses
+   */
+  exportNastran(options: Types.FEAExportOptions = {}): string | null {
+    return this.hull ? this.hull.exportNastran(options) : null;
+  }
+
+  /** Export the hull as an Abaqus input file with component, station and waterline element sets */
+  exportAbaqus(options: Types.FEAExportOptions = {}): string | null {
+    return this.hull ? this.hull.exportAbaqus(options) : null;
+  }
+
+  /** Export the hull as a Gmsh v4 mesh for open-source solvers such as CalculiX or Code_Aster */
+  exportGmsh(options: Types.FEAExportOptions = {}): string | null {
+    return this.hull ? this.hull.exportGmsh(options) : null;
+  }
+
+  /**
+   * Export the wetted hull below the waterplane as a panel mesh for WAMIT (.gdf) or NEMOH (.dat)
+   * Symmetric hulls floating upright are written as half meshes
+   */
+  exportBEM(format: Types.BEMExportFormat, options: Types.BEMExportOptions = {}): string | null {
+    return this.hull ? this.hull.exportBEM(format, options) : null;
+  }
+
+  /** Resample an offset table onto common waterline heights, and optionally equal station spacing */
+  normalizeQuoteTable(quoteTable: Types.QuoteTable, options: Types.GridNormalizationOptions = {}): Types.QuoteTable {
+    return normalizeQuoteTable(quoteTable, options);
+  }
+
+  /** Convert every length of an offset table (offsets, heights, stations, thickness) to other units */
+  convertQuoteTable(quoteTable: Types.QuoteTable, units: Types.QuoteTableMetadata['units']): Types.QuoteTable {
+    return convertQuoteTable(quoteTable, units);
+  }
+
+  /** Parse a feet-inches-eighths offset such as "3-04-5" into feet, or null when the text is not in that notation */
+  parseFeetInchesEighths(text: string): number | null {
+    return parseFeetInchesEighths(text);
+  }
+
+  /** Print a length in feet as feet-inches-eighths, optionally with a trailing "+" for an extra sixteenth */
+  formatFeetInchesEighths(feet: number, options: { sixteenths?: boolean } = {}): string {
+    return formatFeetInchesEighths(feet, options);
+  }
+
+  /** Check an offset table for errors and suspicious values without loading it */
+  validateQuoteTable(quoteTable: Types.QuoteTable): Types.QuoteTableValidation {
+    return validateQuoteTable(quoteTable);
+  }
+
+  /**
+   * Save the session as a versioned JSON project
+   * Holds the offset table, painted and custom weights, brush settings, view state and camera
+   */
+  saveProject(): string | null {
+    if (!this.hull) return null;
+
+    const target = this.cameraHelper.getTarget();
+    const angles = this.cameraHelper.getAngles();
+    const project: Types.HullProject = {
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      quoteTable: this.hull.getQuoteTable(),
+      weights: {
+        painted: toProjectWeights(this.hull.getPaintedWeights()),
+        custom: toProjectWeights(this.hull.customWeights)
+      },
+      brush: {
+        size: this.paintSelectionTool.getBrushSize(),
+        weightPerFace: this.weightManager ? this.weightManager.getWeightPerFace() : 10
+      },
+      state: {
+        hullDetailLevel: { ...stateManager.HullDetailLevel },
+        activeGroups: { ...stateManager.ActiveGroups },
+        wireframe: stateManager.WireframeActive,
+        cameraMode: stateManager.CameraMode,
+        orthoView: stateManager.CurrentOrthoView,
+        floating: this.isFloating
+      },
+      camera: {
+        target: [target.x, target.y, target.z],
+        azimuth: angles.azimuth,
+        polar: angles.polar,
+        distance: this.cameraHelper.getDistance()
+      }
+    };
+    return JSON.stringify(project, null, 2);
+  }
+
+  /**
+   * Load a project saved with saveProject(), or a bare offset table JSON
+   * Older versions are migrated; nothing changes when the file fails validation
+   */
+  loadProject(json: string): Types.ProjectLoadResult {
+    const result = parseProject(json);
+    const project = result.project;
+    if (!project) {
+      stateManager.Debug && console.warn('❌ Project not loaded:', result.errors);
+      return result;
+    }
+
+    // View state first, so the hull is generated at the saved detail level
+    stateManager.HullDetailLevel = { ...project.state.hullDetailLevel };
+    stateManager.ActiveGroups = { ...project.state.activeGroups };
+    stateManager.WireframeActive = project.state.wireframe;
+    stateManager.CameraMode = project.state.cameraMode;
+    stateManager.CurrentOrthoView = project.state.orthoView;
+
+    this.isFloating = false;
+    this.loadHullFromQuoteTable(project.quoteTable);
+    this.setBrushSize(project.brush.size);
+    this.setWeightPerFace(project.brush.weightPerFace);
+
+    if (this.hull) {
+      this.hull.setPaintedWeights(fromProjectWeights(project.weights.painted));
+      this.hull.customWeights = fromProjectWeights(project.weights.custom);
+      this.weightManager?.refreshWeightMarkers();
+      if (project.state.floating) this.floatHull();
+    }
+
+    this.cameraHelper.setTarget(new THREE.Vector3(...project.camera.target));
+    this.cameraHelper.setDistance(project.camera.distance);
+    this.cameraHelper.setAngles(project.camera.azimuth, project.camera.polar);
+
+    stateManager.Debug && console.log(`📂 Project loaded (version ${project.version})`);
+    return result;
+  }
+
+  /**
+   * Parse an offset table from CSV text and load it when a grid could be read
+   * Returns the parsed table with per-cell errors; the hull is left unchanged when no table was produced
+   */
+  loadHullFromCSV(text: string, options: Types.OffsetCSVOptions = {}): Types.OffsetParseResult {
+    const result = parseOffsetsCSV(text, options);
+    if (result.table && result.table.stations.length > 1) {
+      this.loadHullFromQuoteTable(result.table);
+    }
+    return result;
+  }
+
+  /** Parse an offset table from CSV text without loading it */
+  parseOffsetsCSV(text: string, options: Types.OffsetCSVOptions = {}): Types.OffsetParseResult {
+    return parseOffsetsCSV(text, options);
+  }
+
+  /** Write the loaded offset table as CSV (waterlines as rows by default) */
+  exportOffsetsCSV(options: Types.OffsetCSVOptions = {}): string | null {
+    return this.hull ? offsetsToCSV(this.hull.getQuoteTable(), options) : null;
+  }
+
+  /**
+   * Build an offset table from a DXF lines drawing and load it when at least two stations were found
+   * Returns the table with the stations found and the curves that could not be sampled
+   */
+  loadHullFromDXF(text: string, options: Types.DXFImportOptions = {}): Types.DXFImportResult {
+    const result = parseLinesPlanDXF(text, options);
+    if (result.table && result.table.stations.length > 1) {
+      this.loadHullFromQuoteTable(result.table);
+    }
+    return result;
+  }
+
+  /** Build an offset table from a DXF lines drawing without loading it */
+  parseDXF(text: string, options: Types.DXFImportOptions = {}): Types.DXFImportResult {
+    return parseLinesPlanDXF(text, options);
   }
 
   // Public API methods for UI control
@@ -345,7 +566,9 @@ class HullVisualizer {
   /** Apply weight to current selection, returns success status */
   applyWeightToSelection(): boolean {
     if (this.weightManager) {
-      return this.weightManager.applyWeightToSelection();
+      const applied = this.weightManager.applyWeightToSelection();
+      if (applied && this.isFloating) this.floatHull();
+      return applied;
     }
     return false;
   }
@@ -359,6 +582,180 @@ class HullVisualizer {
   clearAllWeights() {
     if (this.weightManager) {
       this.weightManager.clearAllWeights();
+      if (this.isFloating) this.floatHull();
+    }
+  }
+
+  /**
+   * Choose how the refined hull grid passes through the offsets when the detail level is raised
+   * Smoothing follows a Catmull-Rom, natural or monotone cubic curve; disabled, offsets are joined by straight lines
+   */
+  setHullSmoothing(enabled: boolean, interpolation?: Types.InterpolationScheme) {
+    this.hull?.setSmoothing(enabled, interpolation);
+  }
+
+  /** Solve the equilibrium draft, trim and heel for the applied weights without moving the hull */
+  solveEquilibrium(): Types.EquilibriumResult | null {
+    return this.hull ? this.hull.solveEquilibrium() : null;
+  }
+
+  /** Get the righting-arm (GZ) curve for the applied weights, heeling from 0° to 90° by default */
+  getStabilityCurve(options: StabilityOptions = {}): Types.StabilityCurve | null {
+    return this.hull ? this.hull.computeGZCurve(options) : null;
+  }
+
+  /** Get the Bonjean curves (section area against draft) of every station, including interpolated ones */
+  getBonjeanCurves(steps = 10): Types.BonjeanCurve[] | null {
+    return this.hull ? this.hull.computeBonjeanCurves(steps) : null;
+  }
+
+  /** Get the sectional area curve at a draft (table units), trim and heel (degrees) */
+  getSectionalAreaCurve(draft: number, trim = 0, heel = 0): Types.SectionalAreaCurve | null {
+    return this.hull ? this.hull.computeSectionalAreaCurve(draft, trim, heel) : null;
+  }
+
+  /** Overlay the sectional area curve at a draft along the hull centreplane, or pass null to hide it */
+  showSectionalAreaCurve(draft: number | null, trim = 0, heel = 0) {
+    if (!this.hull) return;
+    this.hull.showSectionalAreaCurve(draft !== null ? this.hull.computeSectionalAreaCurve(draft, trim, heel) : null);
+  }
+
+  /** Get still-water load, shear force and bending moment curves for the applied weights */
+  getLongitudinalStrength(options: StrengthOptions = {}): Types.LongitudinalStrength | null {
+    return this.hull ? this.hull.computeLongitudinalStrength(options) : null;
+  }
+
+  /** Overlay the shear force and bending moment diagrams above the deck, or hide them */
+  showLongitudinalStrength(show: boolean, options: StrengthOptions = {}) {
+    if (!this.hull) return;
+    this.hull.showLongitudinalStrength(show ? this.hull.computeLongitudinalStrength(options) : null);
+  }
+
+  /** Get the Gaussian, mean and principal curvatures at every hull mesh vertex, per table unit */
+  getHullCurvature(): Types.VertexCurvature | null {
+    return this.hull ? this.hull.computeCurvature() : null;
+  }
+
+  /** Colour the hull by curvature, or pass null to go back to the plain shell; returns the colour legend */
+  showHullCurvature(options: Types.CurvatureDisplayOptions | null = {}): Types.CurvatureLegend | null {
+    return this.hull ? this.hull.showCurvature(options) : null;
+  }
+
+  /** Get curvature porcupines along the station and waterline curves of the generated hull */
+  getCurvaturePorcupines(): Types.PorcupineCurve[] | null {
+    return this.hull ? this.hull.computePorcupines() : null;
+  }
+
+  /** Overlay curvature porcupines along the stations and waterlines, or hide them */
+  showCurvaturePorcupines(show: boolean) {
+    if (!this.hull) return;
+    this.hull.showPorcupines(show ? this.hull.computePorcupines() : null);
+  }
+
+  /** Define a compartment by station range, height band and side; its liquid counts towards the total weight */
+  addCompartment(definition: Omit<Types.Compartment, 'fillLevel' | 'liquidDensity'> & Partial<Types.Compartment>): Types.Compartment | null {
+    if (!this.hull) return null;
+    const compartment = this.hull.addCompartment(definition);
+    if (this.isFloating) this.floatHull();
+    return compartment;
+  }
+
+  /** Remove a compartment by name */
+  removeCompartment(name: string): boolean {
+    if (!this.hull) return false;
+    const removed = this.hull.removeCompartment(name);
+    if (removed && this.isFloating) this.floatHull();
+    return removed;
+  }
+
+  /** Set the filled fraction (0 to 1) of a compartment */
+  setCompartmentFill(name: string, fillLevel: number) {
+    if (!this.hull) return;
+    this.hull.setCompartmentFill(name, fillLevel);
+    if (this.isFloating) this.floatHull();
+  }
+
+  /** Get volume, contents, centroid and free-surface moment of every compartment */
+  getCompartmentProperties(): Types.CompartmentProperties[] {
+    return this.hull ? this.hull.computeCompartments() : [];
+  }
+
+  /** Get the calibration table (contents against sounding) of a compartment */
+  getTankCalibration(name: string, steps = 10): Types.TankCalibrationRow[] {
+    return this.hull ? this.hull.computeTankCalibration(name, steps) : [];
+  }
+
+  /** Store a named loading condition (lightship, departure, arrival, …) with its own weights and tank fill levels */
+  addLoadingCondition(condition: Pick<Types.LoadingCondition, 'name'> & Partial<Types.LoadingCondition>) {
+    if (this.hull) {
+      this.hull.addLoadingCondition(condition);
+    }
+  }
+
+  /** Switch to a loading condition; the current weights and fill levels stay stored under the previous one */
+  setLoadingCondition(name: string): boolean {
+    if (!this.hull || !this.hull.setLoadingCondition(name)) return false;
+    this.weightManager?.refreshWeightMarkers();
+    if (this.isFloating) this.floatHull();
+    return true;
+  }
+
+  /** Get the names of all loading conditions */
+  getLoadingConditions(): string[] {
+    return this.hull ? this.hull.getLoadingConditionNames() : [];
+  }
+
+  /** Get the name of the active loading condition */
+  getActiveLoadingCondition(): string | null {
+    return this.hull ? this.hull.getActiveLoadingCondition() : null;
+  }
+
+  /** Get equilibrium (and optionally the GZ curve) for every loading condition */
+  getLoadingConditionResults(stability: StabilityOptions | false = false): Types.LoadingConditionResult[] {
+    return this.hull ? this.hull.computeLoadingConditions(stability) : [];
+  }
+
+  /** Get mass, centre of gravity, inertia and radii of gyration of the shell and applied weights (table coordinates) */
+  getMassProperties(): Types.MassProperties | null {
+    return this.hull ? this.hull.computeMassProperties() : null;
+  }
+
+  /** Derive the shell weight from a material density in kg/m³ and the table thickness, or null for the table weight */
+  setMaterialDensity(density: number | null) {
+    if (!this.hull) return;
+    this.hull.setMaterialDensity(density);
+    if (this.isFloating) this.floatHull();
+  }
+
+  /** Float the hull on the water at its equilibrium attitude; it follows later weight changes */
+  floatHull(): Types.EquilibriumResult | null {
+    if (!this.hull) return null;
+
+    const result = this.hull.solveEquilibrium();
+    const waterLevel = this.waterBody ? this.waterBody.getObject().position.y : 0;
+    this.hull.placeAtAttitude(result, waterLevel);
+    this.isFloating = true;
+    return result;
+  }
+
+  /** Get the waterline cut of the hull mesh at its floating attitude, or the solved equilibrium when upright */
+  getWaterIntersection(): Types.WaterIntersectionData | null {
+    return this.hull ? this.hull.computeWaterIntersection() : null;
+  }
+
+  /** Highlight the real waterline on the hull with centre of buoyancy and flotation markers */
+  showWaterIntersection(show: boolean) {
+    this.waterIntersectionVisible = show;
+    if (this.hull) {
+      this.hull.setWaterIntersectionVisible(show);
+    }
+  }
+
+  /** Return the hull to its centred, upright display position */
+  resetHullPosition() {
+    this.isFloating = false;
+    if (this.hull) {
+      this.hull.clearAttitude();
     }
   }
 
@@ -367,6 +764,23 @@ class HullVisualizer {
     return this.paintSelectionTool.getSelectionInfo();
   }
 
+  /** Get hydrostatic properties of the loaded hull at a draft (table units), trim and heel (degrees) */
+  getHydrostatics(draft: number, trim = 0, heel = 0): Types.HydrostaticProperties | null {
+    return this.hull ? this.hull.computeHydrostatics(draft, trim, heel) : null;
+  }
+
+  /** Get the curves of form of the loaded hull sampled at the given number of drafts */
+  getCurvesOfForm(steps = 10): Types.HydrostaticTable | null {
+    return this.hull ? this.hull.computeCurvesOfForm(steps) : null;
+  }
+
+  /** Export the curves of form of the loaded hull as CSV or JSON text */
+  exportCurvesOfForm(format: "csv" | "json" = "csv", steps = 10): string | null {
+    const table = this.getCurvesOfForm(steps);
+    if (!table) return null;
+    return format === "csv" ? hydrostaticTableToCSV(table) : hydrostaticTableToJSON(table);
+  }
+
   /** Get reference to the canvas element */
   getCanvasElement(): HTMLCanvasElement {
     return this.canvasRef;
@@ -0,0 +1,108 @@
+// abaqus.ts
+import * as Types from "../../types";
+
+const MATERIAL_NAME = 'HULL_MATERIAL';
+const ENTRIES_PER_LINE = 16; // Abaqus reads at most 16 entries per data line
+
+/** Turns a group label such as "1.5" into a valid Abaqus set name suffix */
+function setNameSuffix(label: string): string {
+    return label.replace(/-/g, 'M').replace(/\./g, 'P').replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+/** Writes ids as comma-separated data lines of at most 16 entries */
+function idLines(ids: number[]): string[] {
+    const lines: string[] = [];
+    for (let i = 0; i < ids.length; i += ENTRIES_PER_LINE) {
+        lines.push(ids.slice(i, i + ENTRIES_PER_LINE).join(', '));
+    }
+    return lines;
+}
+
+/**
+ * Collects the hull elements built from the faces of each station or waterline group
+ * Group entries are index-buffer offsets, three per triangle; an element joins the group of its first face
+ */
+function getGroupElementSets(model: Types.FEAModel, groups: Record<string, number[]>, prefix: string): Map<string, number[]> {
+    const faceGroup = new Map<number, string>();
+    const sets = new Map<string, number[]>();
+    Object.entries(groups)
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .forEach(([label, offsets]) => {
+            const name = `${prefix}_${setNameSuffix(label)}`;
+            sets.set(name, []);
+            for (let i = 0; i < offsets.length; i += 3) faceGroup.set(offsets[i] / 3, name);
+        });
+
+    model.elements.filter(e => e.component === 'hull').forEach(element => {
+        const name = faceGroup.get(element.faces[0]);
+        if (name !== undefined) sets.get(name)!.push(element.id);
+    });
+    return new Map([...sets].filter(([, ids]) => ids.length > 0));
+}
+
+/**
+ * Writes an FEA model as an Abaqus input file
+ * Shells are S3/S4 elements with one ELSET and SHELL SECTION per component. Hull elements are also
+ * grouped into ST_* and WL_* sets per station and waterline when geometry groups are given.
+ * Painted and custom weights become MASS elements on their nearest node; Abaqus point masses carry no offset.
+ */
+export function writeAbaqusINP(model: Types.FEAModel, groups?: Types.GeometryGroups): string {
+    const { material, unitSystem } = model;
+    const lines: string[] = [
+        '*HEADING',
+        unitSystem
+            ? `Hull shell model, lengths in ${model.units ?? 'm'}, masses in ${unitSystem.mass}, stresses in ${unitSystem.stress}`
+            : `Hull shell model, lengths in ${model.units ?? 'm'}`,
+        '**',
+        '*NODE, NSET=ALL_NODES'
+    ];
+
+    model.nodes.forEach((node, i) => lines.push(`${i + 1}, ${node.x}, ${node.y}, ${node.z}`));
+
+    model.components.forEach(component => {
+        const elements = model.elements.filter(e => e.component === component);
+        const name = component.toUpperCase();
+        ([3, 4] as const).forEach(size => {
+            const ofSize = elements.filter(e => e.nodes.length === size);
+            if (ofSize.length === 0) return;
+            lines.push(`*ELEMENT, TYPE=S${size}, ELSET=${name}`);
+            ofSize.forEach(e => lines.push([e.id, ...e.nodes].join(', ')));
+        });
+    });
+
+    // Station and waterline sets for applying loads or reading results per region
+    if (groups) {
+        [
+            ...getGroupElementSets(model, groups.stations, 'ST'),
+            ...getGroupElementSets(model, groups.waterlines, 'WL')
+        ].forEach(([name, ids]) => {
+            lines.push(`*ELSET, ELSET=${name}`);
+            lines.push(...idLines(ids));
+        });
+    }
+
+    model.components.forEach(component => {
+        lines.push(`*SHELL SECTION, ELSET=${component.toUpperCase()}, MATERIAL=${MATERIAL_NAME}`);
+        lines.push(`${model.thickness}`);
+    });
+
+    lines.push(
+        `*MATERIAL, NAME=${MATERIAL_NAME}`,
+        '*ELASTIC',
+        `${material.youngsModulus}, ${material.poissonRatio}`,
+        '*DENSITY',
+        `${material.density}`
+    );
+
+    // Each point mass gets its own element set, since a MASS section holds a single value
+    model.masses.forEach(mass => {
+        const name = `MASS_${mass.id}`;
+        lines.push(`** ${mass.source} weight`);
+        lines.push(`*ELEMENT, TYPE=MASS, ELSET=${name}`);
+        lines.push(`${mass.id}, ${mass.node}`);
+        lines.push(`*MASS, ELSET=${name}`);
+        lines.push(`${mass.mass}`);
+    });
+
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,203 @@
+// bem.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { getUnitScale } from "../utils/geometry/getters";
+import { stateManager } from "../state_manager";
+import { getWaterplane, GRAVITY } from "../physics/hydrostatics";
+import { createMergedNodes } from "./node_merging";
+
+/**
+ * Clips a planar polygon to the side of an axis plane where sign × coordinate is not negative
+ * Crossings are computed from ordered edge ends and put exactly on the plane, so neighbouring panels share them
+ */
+function clipPolygon(polygon: THREE.Vector3[], axis: 'y' | 'z', sign: 1 | -1): THREE.Vector3[] {
+    const result: THREE.Vector3[] = [];
+    polygon.forEach((a, i) => {
+        const b = polygon[(i + 1) % polygon.length];
+        const da = sign * a[axis];
+        const db = sign * b[axis];
+        if (da >= 0) result.push(a);
+        if ((da > 0 && db < 0) || (da < 0 && db > 0)) {
+            const swap = a.x > b.x || (a.x === b.x && (a.y > b.y || (a.y === b.y && a.z > b.z)));
+            const [p, q] = swap ? [b, a] : [a, b];
+            const crossing = p.clone().lerp(q, p[axis] / (p[axis] - q[axis]));
+            crossing[axis] = 0;
+            result.push(crossing);
+        }
+    });
+    return result;
+}
+
+/** Area-weighted normal of a panel, its length twice the panel area */
+function getPanelNormal(panel: number[], nodes: THREE.Vector3[]): THREE.Vector3 {
+    const normal = new THREE.Vector3();
+    for (let i = 1; i + 1 < panel.length; i++) {
+        const a = nodes[panel[0]];
+        normal.add(new THREE.Vector3().subVectors(nodes[panel[i]], a).cross(new THREE.Vector3().subVectors(nodes[panel[i + 1]], a)));
+    }
+    return normal;
+}
+
+/**
+ * Turns every panel to face out of the body
+ * The hull, bow and transom are wound independently, so panels are first made consistent across edges shared by two panels.
+ * Each connected patch is then flipped when its volume integral ∑ z·nz·A, which the free surface and symmetry
+ * plane add nothing to, comes out negative; flat patches such as a transom fall back to their offset from the body centre.
+ */
+function orientPanels(panels: number[][], nodes: THREE.Vector3[]): void {
+    const edgeKey = (a: number, b: number) => a < b ? `${a},${b}` : `${b},${a}`;
+    const edgePanels = new Map<string, number[]>();
+    panels.forEach((panel, p) => panel.forEach((a, i) => {
+        const key = edgeKey(a, panel[(i + 1) % panel.length]);
+        if (!edgePanels.has(key)) edgePanels.set(key, []);
+        edgePanels.get(key)!.push(p);
+    }));
+
+    // Whether the panel walks from a to b along one of its edges
+    const runs = (panel: number[], a: number, b: number) =>
+        panel.some((node, i) => node === a && panel[(i + 1) % panel.length] === b);
+
+    const centre = new THREE.Box3().setFromPoints(nodes).getCenter(new THREE.Vector3());
+    const visited = new Set<number>();
+
+    panels.forEach((_, start) => {
+        if (visited.has(start)) return;
+        const patch: number[] = [start];
+        visited.add(start);
+
+        for (let k = 0; k < patch.length; k++) {
+            const panel = panels[patch[k]];
+            panel.forEach((a, i) => {
+                const b = panel[(i + 1) % panel.length];
+                // Where a keel fin meets both sides an edge has three panels and no inside to agree on
+                const sharing = edgePanels.get(edgeKey(a, b))!;
+                if (sharing.length !== 2) return;
+                sharing.forEach(neighbour => {
+                    if (visited.has(neighbour)) return;
+                    if (runs(panels[neighbour], a, b)) panels[neighbour].reverse();
+                    visited.add(neighbour);
+                    patch.push(neighbour);
+                });
+            });
+        }
+
+        let volume = 0;
+        let magnitude = 0;
+        let outward = 0;
+        patch.forEach(p => {
+            const normal = getPanelNormal(panels[p], nodes);
+            const centroid = panels[p].reduce((sum, n) => sum.add(nodes[n]), new THREE.Vector3()).divideScalar(panels[p].length);
+            volume += centroid.z * normal.z;
+            magnitude += Math.abs(centroid.z * normal.z);
+            outward += centroid.sub(centre).dot(normal);
+        });
+        if (Math.abs(volume) > 1e-6 * magnitude ? volume < 0 : outward < 0) patch.forEach(p => panels[p].reverse());
+    });
+}
+
+/**
+ * Cuts the wetted surface out of the hull meshes and puts it in the seakeeping frame
+ * The hull is rotated so the waterplane of the attitude becomes z = 0; panels are clipped at the waterline,
+ * so the mesh ends on a closed loop in the free surface. Symmetric tables floating upright are halved at y = 0.
+ * @param table - Offset table describing the hull
+ * @param meshes - Shell meshes in hull-local coordinates
+ * @param attitude - Draft, trim and heel of the waterplane
+ */
+export function buildWettedMesh(
+    table: Types.QuoteTable,
+    meshes: THREE.Mesh[],
+    attitude: { draft: number; trim: number; heel: number },
+    options: Types.BEMExportOptions = {}
+): Types.BEMMesh {
+    const tableScale = getUnitScale(table.metadata.units);
+    const units = options.units ?? table.metadata.units;
+    const outputScale = 1 / getUnitScale(units);
+
+    const canHalve = table.metadata.symmetry === 'symmetric' && attitude.heel === 0;
+    const halfMesh = (options.halfMesh ?? true) && canHalve;
+    if (options.halfMesh && !canHalve) {
+        stateManager.Debug && console.warn('⚠️ Half mesh needs a symmetric table floating upright, writing the full mesh');
+    }
+
+    // Level the waterplane, then map hull-local axes (x transverse, y up, z along) to x along, y transverse, z up
+    const plane = getWaterplane(table, attitude.draft, attitude.trim, attitude.heel);
+    const rotation = new THREE.Quaternion().setFromUnitVectors(plane.normal, new THREE.Vector3(0, 1, 0));
+    const toFrame = (p: THREE.Vector3) => {
+        const v = p.clone().applyQuaternion(rotation);
+        return new THREE.Vector3(v.z, v.x, v.y + plane.constant * tableScale).multiplyScalar(outputScale);
+    };
+
+    const { nodes, getNodeId, isNewFace } = createMergedNodes();
+    const panels: number[][] = [];
+    const addPanel = (ids: number[]) => {
+        const distinct = ids.filter((id, i) => id !== ids[(i + 1) % ids.length]);
+        if (new Set(distinct).size < 3 || getPanelNormal(distinct, nodes).lengthSq() === 0) return;
+        // Faces lying in the symmetry plane belong to neither half
+        if (halfMesh && distinct.every(id => nodes[id].y === 0)) return;
+        if (isNewFace(distinct)) panels.push(distinct);
+    };
+
+    const vertex = new THREE.Vector3();
+    meshes.forEach(mesh => {
+        const position = mesh.geometry.attributes.position;
+        const index = mesh.geometry.index;
+        if (!position) return;
+
+        const count = index ? index.count : position.count;
+        for (let i = 0; i + 2 < count; i += 3) {
+            let polygon = [0, 1, 2].map(k => toFrame(vertex.fromBufferAttribute(position, index ? index.getX(i + k) : i + k)));
+            polygon = clipPolygon(polygon, 'z', -1);
+            if (halfMesh) polygon = clipPolygon(polygon, 'y', 1);
+            if (polygon.length < 3) continue;
+
+            // A clipped triangle is planar, so up to four corners make one panel
+            const ids = polygon.map(getNodeId);
+            addPanel(ids.slice(0, 4));
+            for (let k = 3; k + 1 < ids.length; k++) addPanel([ids[0], ids[k], ids[k + 1]]);
+        }
+    });
+
+    orientPanels(panels, nodes);
+
+    stateManager.Debug && console.log(
+        `🌊 Wetted mesh: ${panels.length} panels, ${nodes.length} nodes${halfMesh ? ' (half mesh)' : ''}`
+    );
+    return { nodes, panels, halfMesh, units };
+}
+
+/** Repeats the last node of triangles, as both formats only know quadrilaterals */
+function toQuad(panel: number[]): number[] {
+    return panel.length === 3 ? [...panel, panel[2]] : panel;
+}
+
+/**
+ * Writes a wetted mesh as a WAMIT low-order geometry file (.gdf)
+ * Vertices run anticlockwise seen from the water; ISY = 1 marks a half mesh mirrored about y = 0
+ */
+export function writeWamitGDF(mesh: Types.BEMMesh): string {
+    const gravity = GRAVITY / getUnitScale(mesh.units);
+    const lines: string[] = [
+        `Hull wetted surface, lengths in ${mesh.units}`,
+        `1.0 ${Number(gravity.toPrecision(6))}    ULEN GRAV`,
+        `0 ${mesh.halfMesh ? 1 : 0}    ISX ISY`,
+        `${mesh.panels.length}    NPAN`
+    ];
+    mesh.panels.forEach(panel => toQuad(panel).forEach(id => {
+        const node = mesh.nodes[id];
+        lines.push(`${node.x} ${node.y} ${node.z}`);
+    }));
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Writes a wetted mesh in the NEMOH mesh format (.dat)
+ * The header flags symmetry about xOz; nodes and panels are each closed by a line of zeros
+ */
+export function writeNemohDAT(mesh: Types.BEMMesh): string {
+    const lines: string[] = [`2 ${mesh.halfMesh ? 1 : 0}`];
+    mesh.nodes.forEach((node, i) => lines.push(`${i + 1} ${node.x} ${node.y} ${node.z}`));
+    lines.push('0 0.00 0.00 0.00');
+    mesh.panels.forEach(panel => lines.push(toQuad(panel).map(id => id + 1).join(' ')));
+    lines.push('0 0 0 0');
+    return lines.join('\n') + '\n';
+}
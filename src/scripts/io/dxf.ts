@@ -0,0 +1,484 @@
+// dxf.ts
+import * as Types from "../../types";
+import { stateManager } from "../state_manager";
+
+const DEFAULT_LAYERS: Record<Types.LinesPlanView, string> = {
+    bodyPlan: 'BODY_PLAN',
+    halfBreadth: 'HALF_BREADTH',
+    profile: 'PROFILE'
+};
+const DEFAULT_WATERLINE_COUNT = 6;
+const SPLINE_SAMPLES_PER_SPAN = 16;
+const CURVE_TYPES = ['LINE', 'LWPOLYLINE', 'POLYLINE', 'SPLINE'];
+const TEXT_TYPES = ['TEXT', 'MTEXT'];
+
+// $INSUNITS codes of the units an offset table can use
+const INSUNITS: Record<number, Types.QuoteTableMetadata['units']> = { 1: 'in', 2: 'ft', 4: 'mm', 6: 'm' };
+
+interface Point2 {
+    x: number;
+    y: number;
+}
+
+/** Group code and value line pair of a DXF file */
+interface DXFPair {
+    code: number;
+    value: string;
+}
+
+/** Entity of the ENTITIES section; curves carry their vertices, texts their insertion point */
+interface DXFEntity {
+    type: string;
+    layer: string;
+    handle: string | null;
+    points: Point2[];
+    text?: string;
+}
+
+/** Curve of one view in table coordinates with the label that names it */
+interface ViewCurve {
+    entity: DXFEntity;
+    points: Point2[];
+    label: { text: string; value: number } | null;
+}
+
+/** Splits the file into group code and value pairs; null when the codes are not integers */
+function readPairs(text: string): DXFPair[] | null {
+    const lines = text.split(/\r?\n/);
+    const pairs: DXFPair[] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+        const code = Number(lines[i].trim());
+        if (!Number.isInteger(code)) return null;
+        pairs.push({ code, value: lines[i + 1].trim() });
+    }
+    return pairs;
+}
+
+/** Reads the pairs between "0 SECTION / 2 name" and "0 ENDSEC" */
+function getSection(pairs: DXFPair[], name: string): DXFPair[] | null {
+    const start = pairs.findIndex((pair, i) =>
+        pair.code === 0 && pair.value === 'SECTION' && pairs[i + 1]?.code === 2 && pairs[i + 1].value === name);
+    if (start < 0) return null;
+    const end = pairs.findIndex((pair, i) => i > start && pair.code === 0 && pair.value === 'ENDSEC');
+    return pairs.slice(start + 2, end < 0 ? pairs.length : end);
+}
+
+/**
+ * Samples a B-spline, rational when weights are given, by de Boor's algorithm
+ * Returns no points when the knot vector does not match the control points
+ */
+function sampleSpline(degree: number, knots: number[], control: Point2[], weights: number[]): Point2[] {
+    const n = control.length;
+    if (degree < 1 || n <= degree || knots.length !== n + degree + 1) return [];
+
+    const weightOf = (i: number) => weights.length === n ? weights[i] : 1;
+    const start = knots[degree];
+    const end = knots[n];
+    const samples = (n - degree) * SPLINE_SAMPLES_PER_SPAN;
+    const points: Point2[] = [];
+
+    for (let s = 0; s <= samples; s++) {
+        const t = start + (end - start) * s / samples;
+        let k = degree;
+        while (k < n - 1 && t >= knots[k + 1]) k++;
+
+        // Homogeneous coordinates so rational splines blend correctly
+        const d = Array.from({ length: degree + 1 }, (_, j) => {
+            const i = j + k - degree;
+            const w = weightOf(i);
+            return { x: control[i].x * w, y: control[i].y * w, w };
+        });
+        for (let r = 1; r <= degree; r++) {
+            for (let j = degree; j >= r; j--) {
+                const i = j + k - degree;
+                const span = knots[i + degree - r + 1] - knots[i];
+                const alpha = span === 0 ? 0 : (t - knots[i]) / span;
+                d[j] = {
+                    x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+                    y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+                    w: (1 - alpha) * d[j - 1].w + alpha * d[j].w
+                };
+            }
+        }
+        points.push({ x: d[degree].x / d[degree].w, y: d[degree].y / d[degree].w });
+    }
+    return points;
+}
+
+/** Reads x/y coordinate pairs from codes such as 10/20 in the order they appear */
+function readPoints(pairs: DXFPair[], xCode: number): Point2[] {
+    const points: Point2[] = [];
+    pairs.forEach(pair => {
+        if (pair.code === xCode) points.push({ x: Number(pair.value), y: 0 });
+        else if (pair.code === xCode + 10 && points.length > 0) points[points.length - 1].y = Number(pair.value);
+    });
+    return points;
+}
+
+/**
+ * Reads the entities of a DXF file
+ * POLYLINE vertices are gathered up to their SEQEND; splines are sampled from their control points, or joined through
+ * their fit points when the knot vector is unusable
+ */
+function readEntities(pairs: DXFPair[]): DXFEntity[] {
+    // Each entity runs from one code 0 to the next
+    const chunks: DXFPair[][] = [];
+    pairs.forEach(pair => {
+        if (pair.code === 0) chunks.push([pair]);
+        else chunks[chunks.length - 1]?.push(pair);
+    });
+
+    const entities: DXFEntity[] = [];
+    let polyline: DXFEntity | null = null;
+    let polylineClosed = false;
+
+    chunks.forEach(chunk => {
+        const type = chunk[0].value;
+        const body = chunk.slice(1);
+        const get = (code: number) => body.find(pair => pair.code === code)?.value;
+        const flags = Number(get(70) ?? 0);
+
+        if (type === 'VERTEX') {
+            // Spline frame control points are not on the curve
+            if (polyline && (flags & 16) === 0) polyline.points.push(...readPoints(body, 10).slice(0, 1));
+            return;
+        }
+        if (type === 'SEQEND') {
+            if (polyline) {
+                if (polylineClosed && polyline.points.length > 0) polyline.points.push({ ...polyline.points[0] });
+                entities.push(polyline);
+            }
+            polyline = null;
+            return;
+        }
+
+        const entity: DXFEntity = { type, layer: get(8) ?? '0', handle: get(5) ?? null, points: [] };
+        switch (type) {
+            case 'LINE':
+                entity.points = [...readPoints(body, 10), ...readPoints(body, 11)];
+                break;
+            case 'LWPOLYLINE':
+                entity.points = readPoints(body, 10);
+                if ((flags & 1) && entity.points.length > 0) entity.points.push({ ...entity.points[0] });
+                break;
+            case 'POLYLINE':
+                polyline = entity;
+                polylineClosed = (flags & 1) === 1;
+                return;
+            case 'SPLINE': {
+                const numbers = (code: number) => body.filter(pair => pair.code === code).map(pair => Number(pair.value));
+                entity.points = sampleSpline(Number(get(71) ?? 3), numbers(40), readPoints(body, 10), numbers(41));
+                if (entity.points.length === 0) entity.points = readPoints(body, 11);
+                break;
+            }
+            case 'TEXT':
+            case 'MTEXT':
+                entity.points = readPoints(body, 10).slice(0, 1);
+                // MTEXT splits long strings over code 3 chunks and embeds formatting codes
+                entity.text = [...body.filter(pair => pair.code === 3), ...body.filter(pair => pair.code === 1)]
+                    .map(pair => pair.value).join('')
+                    .replace(/\\[A-Za-z][^;\\]*;/g, '').replace(/[{}]/g, '').trim();
+                break;
+        }
+        entities.push(entity);
+    });
+    return entities;
+}
+
+/**
+ * Chains LINE segments that meet end to end into single curves
+ * Chine hulls are often drawn with one line per flat panel
+ */
+function joinLines(lines: DXFEntity[]): DXFEntity[] {
+    const scale = lines.reduce((max, line) =>
+        line.points.reduce((m, p) => Math.max(m, Math.abs(p.x), Math.abs(p.y)), max), 1);
+    const tolerance = scale * 1e-6;
+    const near = (a: Point2, b: Point2) => Math.abs(a.x - b.x) <= tolerance && Math.abs(a.y - b.y) <= tolerance;
+
+    const unused = lines.filter(line => line.points.length === 2);
+    const chains: DXFEntity[] = [];
+    while (unused.length > 0) {
+        const first = unused.shift()!;
+        const chain: DXFEntity = { ...first, points: [...first.points] };
+
+        let extended = true;
+        while (extended) {
+            extended = false;
+            for (let i = 0; i < unused.length; i++) {
+                const [a, b] = unused[i].points;
+                const head = chain.points[0];
+                const tail = chain.points[chain.points.length - 1];
+                if (near(tail, a)) chain.points.push(b);
+                else if (near(tail, b)) chain.points.push(a);
+                else if (near(head, b)) chain.points.unshift(a);
+                else if (near(head, a)) chain.points.unshift(b);
+                else continue;
+                unused.splice(i, 1);
+                extended = true;
+                break;
+            }
+        }
+        chains.push(chain);
+    }
+    return chains;
+}
+
+/** Distance from a point to the nearest segment of a curve */
+function distanceToCurve(point: Point2, points: Point2[]): number {
+    let best = Infinity;
+    for (let i = 0; i < points.length; i++) {
+        const a = points[i];
+        const b = points[Math.min(i + 1, points.length - 1)];
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+        best = Math.min(best, Math.hypot(point.x - a.x - t * dx, point.y - a.y - t * dy));
+    }
+    return best;
+}
+
+/**
+ * Values along one axis where a curve crosses a line on which the other axis is constant
+ * @param axis - The axis held at value, e.g. 'y' to cut a body-plan curve at a waterline height
+ */
+function getCrossings(points: Point2[], axis: 'x' | 'y', value: number): number[] {
+    const other = axis === 'x' ? 'y' : 'x';
+    const result: number[] = [];
+    for (let i = 0; i + 1 < points.length; i++) {
+        const a = points[i];
+        const b = points[i + 1];
+        if (a[axis] === b[axis]) {
+            if (a[axis] === value) result.push(a[other], b[other]);
+            continue;
+        }
+        const t = (value - a[axis]) / (b[axis] - a[axis]);
+        if (t >= 0 && t <= 1) result.push(a[other] + t * (b[other] - a[other]));
+    }
+    return result;
+}
+
+/**
+ * Collects the curves of one view in table coordinates and pairs each with its nearest numeric label
+ * Body-plan curves map to (half-breadth, height), half-breadth curves to (station, half-breadth) and
+ * profile curves to (station, height). Labels and curves are paired closest first, each used once.
+ */
+function getViewCurves(
+    entities: DXFEntity[],
+    view: Types.LinesPlanView,
+    layer: string,
+    options: Types.DXFImportOptions,
+    unsampled: Types.DXFCurveIssue[]
+): ViewCurve[] {
+    const onLayer = entities.filter(entity => entity.layer.toUpperCase() === layer.toUpperCase());
+    const [ox, oy] = options.origins?.[view] ?? [0, 0];
+    const scale = options.scale ?? 1;
+    const toTable = (p: Point2): Point2 => view === 'bodyPlan'
+        ? { x: Math.abs(p.x - ox) * scale, y: (p.y - oy) * scale }
+        : view === 'halfBreadth'
+            ? { x: (p.x - ox) * scale, y: Math.abs(p.y - oy) * scale }
+            : { x: (p.x - ox) * scale, y: (p.y - oy) * scale };
+
+    onLayer.filter(entity => !CURVE_TYPES.includes(entity.type) && !TEXT_TYPES.includes(entity.type))
+        .forEach(entity => unsampled.push({ layer: entity.layer, type: entity.type, handle: entity.handle, reason: 'Unsupported entity type' }));
+
+    const raw = [
+        ...onLayer.filter(entity => CURVE_TYPES.includes(entity.type) && entity.type !== 'LINE'),
+        ...joinLines(onLayer.filter(entity => entity.type === 'LINE'))
+    ];
+    const curves: ViewCurve[] = [];
+    raw.forEach(entity => {
+        if (entity.points.length < 2 || entity.points.some(p => !Number.isFinite(p.x) || !Number.isFinite(p.y))) {
+            unsampled.push({ layer: entity.layer, type: entity.type, handle: entity.handle, reason: 'Curve has too few or invalid points' });
+            return;
+        }
+        curves.push({ entity, points: entity.points.map(toTable), label: null });
+    });
+
+    const labels = onLayer
+        .filter(entity => TEXT_TYPES.includes(entity.type) && entity.points.length === 1)
+        .map(entity => ({ text: entity.text ?? '', point: toTable(entity.points[0]), match: entity.text?.match(/-?\d+(?:\.\d+)?/) }))
+        .filter(label => label.match)
+        .map(label => ({ ...label, value: Number(label.match![0]) }));
+
+    const pairs = labels.flatMap((label, l) => curves.map((curve, c) => ({ l, c, distance: distanceToCurve(label.point, curve.points) })))
+        .sort((a, b) => a.distance - b.distance);
+    const usedLabels = new Set<number>();
+    pairs.forEach(({ l, c }) => {
+        if (usedLabels.has(l) || curves[c].label) return;
+        usedLabels.add(l);
+        curves[c].label = { text: labels[l].text, value: labels[l].value };
+    });
+
+    return curves;
+}
+
+/**
+ * Heights spread evenly over the body-plan curves, or the labelled half-breadth waterlines
+ * Labelled waterlines are joined by the lowest and highest body-plan points, so the baseline and sheer are never cut off
+ */
+function getDefaultWaterlines(bodyPlan: ViewCurve[], halfBreadth: ViewCurve[]): number[] {
+    const labelled = [...new Set(halfBreadth.filter(c => c.label).map(c => c.label!.value))].sort((a, b) => a - b);
+    const heights = bodyPlan.flatMap(curve => curve.points.map(p => p.y));
+    if (heights.length === 0) return labelled;
+
+    const min = Math.min(...heights);
+    const max = Math.max(...heights);
+    if (labelled.length >= 2) return [...new Set([min, ...labelled, max])].sort((a, b) => a - b);
+    return Array.from({ length: DEFAULT_WATERLINE_COUNT }, (_, i) => min + (max - min) * i / (DEFAULT_WATERLINE_COUNT - 1));
+}
+
+/**
+ * Builds an offset table from the 2D lines drawing in a DXF file
+ * Body-plan curves on their layer are cut at each waterline height; the outermost crossing is the half-breadth.
+ * A station below the lowest point of its curve has zero breadth, above the highest point it keeps the breadth at the top.
+ * Stations are named by the nearest numeric TEXT/MTEXT on the layer, or taken from options.stations in drawing order.
+ * Stations without a body-plan curve are read off the half-breadth plan, whose curves are named by their heights,
+ * with the profile giving the keel line below which the breadth is zero.
+ * Supports LINE, LWPOLYLINE, POLYLINE and SPLINE; other entities on the layers are reported as unsampled.
+ */
+export function parseLinesPlanDXF(text: string, options: Types.DXFImportOptions = {}): Types.DXFImportResult {
+    const stations: Types.DXFStationReport[] = [];
+    const unsampled: Types.DXFCurveIssue[] = [];
+    const errors: string[] = [];
+    const fail = (message: string): Types.DXFImportResult => {
+        errors.push(message);
+        return { table: null, stations, unsampled, errors };
+    };
+
+    const pairs = readPairs(text);
+    if (!pairs) return fail('File is not an ASCII DXF drawing');
+    const section = getSection(pairs, 'ENTITIES');
+    if (!section) return fail('Drawing has no ENTITIES section');
+
+    const header = getSection(pairs, 'HEADER') ?? [];
+    const unitsIndex = header.findIndex(pair => pair.code === 9 && pair.value === '$INSUNITS');
+    const drawingUnits = unitsIndex >= 0 ? INSUNITS[Number(header[unitsIndex + 1]?.value)] : undefined;
+
+    const layers = { ...DEFAULT_LAYERS, ...options.layers };
+    const entities = readEntities(section);
+    const bodyPlan = getViewCurves(entities, 'bodyPlan', layers.bodyPlan, options, unsampled);
+    const halfBreadth = getViewCurves(entities, 'halfBreadth', layers.halfBreadth, options, unsampled);
+    const profile = getViewCurves(entities, 'profile', layers.profile, options, unsampled);
+
+    if (bodyPlan.length === 0 && halfBreadth.length === 0) {
+        return fail(`No curves on layer ${layers.bodyPlan} or ${layers.halfBreadth}`);
+    }
+
+    const waterlines = [...(options.waterlines ?? getDefaultWaterlines(bodyPlan, halfBreadth))].sort((a, b) => a - b);
+    if (waterlines.length === 0) return fail('No waterline heights to sample; pass options.waterlines');
+
+    const issue = (curve: ViewCurve, reason: string) => unsampled.push({
+        layer: curve.entity.layer, type: curve.entity.type, handle: curve.entity.handle, reason
+    });
+
+    // Keel height at a station from the lowest crossing of the profile
+    const getKeel = (position: number): number | null => {
+        const heights = profile.flatMap(curve => getCrossings(curve.points, 'x', position));
+        return heights.length > 0 ? Math.min(...heights) : null;
+    };
+
+    // Unlabelled body-plan curves take the given positions in drawing order; the rest are half-breadth stations
+    const freePositions = [...(options.stations ?? [])];
+    const sections = new Map<number, Map<number, number>>();
+
+    bodyPlan.forEach(curve => {
+        const position = curve.label ? curve.label.value : freePositions.shift();
+        if (position === undefined) return issue(curve, 'Body-plan curve has no station label');
+        if (sections.has(position)) return issue(curve, `Duplicate body-plan curve for station ${position}`);
+
+        const heights = curve.points.map(p => p.y);
+        const bottom = Math.min(...heights);
+        const top = Math.max(...heights);
+        if (!waterlines.some(h => h >= bottom && h <= top)) return issue(curve, 'Body-plan curve does not cross any waterline');
+
+        const topBreadth = Math.max(...getCrossings(curve.points, 'y', top));
+        const keel = getKeel(position);
+        const offsets = new Map<number, number>();
+        waterlines.forEach(height => {
+            if (height < bottom || (keel !== null && height < keel)) offsets.set(height, 0);
+            else if (height > top) offsets.set(height, topBreadth);
+            else offsets.set(height, Math.max(...getCrossings(curve.points, 'y', height)));
+        });
+
+        sections.set(position, offsets);
+        stations.push({ position, source: 'body-plan', label: curve.label?.text ?? null, missing: [] });
+    });
+
+    // Waterline curves, named by their heights, give breadths along the length
+    const waterlineCurves = halfBreadth.filter(curve => {
+        if (!curve.label) issue(curve, 'Half-breadth curve has no waterline label');
+        return curve.label !== null;
+    });
+
+    freePositions.forEach(position => {
+        if (sections.has(position)) return;
+        const measured = waterlineCurves
+            .map(curve => ({ height: curve.label!.value, breadths: getCrossings(curve.points, 'x', position) }))
+            .filter(m => m.breadths.length > 0)
+            .map(m => ({ height: m.height, breadth: Math.max(...m.breadths) }))
+            .sort((a, b) => a.height - b.height);
+        const keel = getKeel(position);
+        if (measured.length === 0) return;
+
+        // Heights no waterline curve reaches are filled as for body-plan curves, so every station has every height:
+        // zero below the lowest measured waterline, the top breadth above the highest
+        const offsets = new Map<number, number>();
+        const missing: number[] = [];
+        waterlines.forEach(height => {
+            if (keel !== null && height <= keel) return offsets.set(height, 0);
+            const upper = measured.findIndex(m => m.height >= height);
+            if (upper < 0 || (upper === 0 && measured[0].height > height)) {
+                missing.push(height);
+                return offsets.set(height, upper < 0 ? measured[measured.length - 1].breadth : 0);
+            }
+
+            const b = measured[upper];
+            const a = measured[Math.max(upper - 1, 0)];
+            const t = b.height === a.height ? 1 : (height - a.height) / (b.height - a.height);
+            offsets.set(height, a.breadth + t * (b.breadth - a.breadth));
+        });
+
+        sections.set(position, offsets);
+        stations.push({ position, source: 'half-breadth', label: null, missing });
+    });
+
+    // Curves that never met a station
+    const positions = [...sections.keys()];
+    waterlineCurves.forEach(curve => {
+        if (!positions.some(position => getCrossings(curve.points, 'x', position).length > 0)) {
+            issue(curve, 'Half-breadth curve does not cross any station');
+        }
+    });
+    profile.forEach(curve => {
+        if (!positions.some(position => getCrossings(curve.points, 'x', position).length > 0)) {
+            issue(curve, 'Profile curve does not cross any station');
+        }
+    });
+
+    if (sections.size === 0) return fail('No station could be sampled');
+
+    stations.sort((a, b) => a.position - b.position);
+    const metadata = options.metadata ?? {};
+    const table: Types.QuoteTable = {
+        stations: stations.map(report => ({
+            position: report.position,
+            waterlines: [...sections.get(report.position)!.entries()]
+                .map(([height, halfBreadthPort]) => ({ height, halfBreadthPort }))
+                .sort((a, b) => a.height - b.height)
+        })),
+        metadata: {
+            weight: metadata.weight ?? 0,
+            thickness: metadata.thickness ?? 0,
+            units: metadata.units ?? drawingUnits ?? 'm',
+            symmetry: 'symmetric',
+            ...(metadata.hasKeel !== undefined ? { hasKeel: metadata.hasKeel } : {}),
+            ...(metadata.hasChine !== undefined ? { hasChine: metadata.hasChine } : {})
+        }
+    };
+
+    stateManager.Debug && console.log(
+        `📐 Read ${stations.length} stations from DXF at ${waterlines.length} waterlines, ${unsampled.length} curves unsampled`
+    );
+    return { table, stations, unsampled, errors };
+}
@@ -0,0 +1,180 @@
+// fea_model.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { getUnitScale } from "../utils/geometry/getters";
+import { stateManager } from "../state_manager";
+import { getExportMatrix, HULL_COMPONENTS, prepareExportGroup } from "./mesh_export";
+import { createMergedNodes } from "./node_merging";
+
+/** Structural steel in SI units (Pa, kg/m³) */
+export const DEFAULT_FEA_MATERIAL: Types.FEAMaterial = {
+    youngsModulus: 2.1e11,
+    poissonRatio: 0.3,
+    density: 7850
+};
+
+// Pound-force in newtons
+const POUND_FORCE = 4.4482216152605;
+
+/**
+ * Consistent unit systems by output length unit, with seconds for time; names are plain ASCII for solver decks
+ * The force unit fixes the mass unit as force / (length / s²), so metric lengths use newtons and imperial ones pound-force
+ */
+const FEA_UNIT_SYSTEMS: Record<NonNullable<Types.Units>, Types.FEAUnitSystem & { newtons: number }> = {
+    m: { mass: 'kg', force: 'N', stress: 'Pa', density: 'kg/m^3', newtons: 1 },
+    mm: { mass: 't', force: 'N', stress: 'MPa', density: 't/mm^3', newtons: 1 },
+    ft: { mass: 'slug', force: 'lbf', stress: 'lbf/ft^2', density: 'slug/ft^3', newtons: POUND_FORCE },
+    in: { mass: 'lbf*s^2/in', force: 'lbf', stress: 'psi', density: 'lbf*s^2/in^4', newtons: POUND_FORCE }
+};
+
+// Largest out-of-plane offset of a joined quad's fourth node, relative to its diagonal
+const MAX_QUAD_WARP = 0.05;
+
+/**
+ * Joins two triangles sharing an edge into one quad with the winding of the first triangle
+ * Returns null when they share no edge or the quad would be warped or concave
+ */
+function joinTriangles(first: number[], second: number[], nodes: THREE.Vector3[]): number[] | null {
+    for (let k = 0; k < 3; k++) {
+        const p = first[k];
+        const q = first[(k + 1) % 3];
+        if (!second.includes(p) || !second.includes(q)) continue;
+
+        const opposite = second.find(n => n !== p && n !== q);
+        if (opposite === undefined) return null;
+        const quad = [q, first[(k + 2) % 3], p, opposite];
+
+        const corners = quad.map(id => nodes[id - 1]);
+        const normal = new THREE.Vector3().subVectors(corners[1], corners[0])
+            .cross(new THREE.Vector3().subVectors(corners[2], corners[0]));
+        if (normal.lengthSq() === 0) return null;
+        normal.normalize();
+
+        const warp = Math.abs(new THREE.Vector3().subVectors(corners[3], corners[0]).dot(normal));
+        if (warp > MAX_QUAD_WARP * corners[0].distanceTo(corners[2])) return null;
+
+        // Every corner must turn the same way for a convex quad
+        for (let i = 0; i < 4; i++) {
+            const a = corners[i];
+            const b = corners[(i + 1) % 4];
+            const c = corners[(i + 2) % 4];
+            const turn = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, b));
+            if (turn.dot(normal) <= 0) return null;
+        }
+        return quad;
+    }
+    return null;
+}
+
+/**
+ * Builds a shell-element model of the hull surfaces with point masses
+ * Nodes shared by neighbouring components are merged so the deck, bow and transom connect to the hull.
+ * Consecutive triangles of a panel become one quad when options.quads is not false.
+ * Without options.material the model is written in meters unless options.units says otherwise, and the default
+ * steel and the masses are converted to the consistent unit system of the output units (mm: t, N, MPa).
+ * @param meshes - Component meshes in hull-local coordinates
+ * @param tableUnits - Units of the offset table, the default output units when options.material is given
+ * @param thickness - Shell thickness in table units
+ * @param weights - Painted and custom point masses in hull-local coordinates
+ */
+export function buildFEAModel(
+    meshes: Partial<Record<Types.HullComponent, THREE.Mesh | null>>,
+    tableUnits: Types.Units,
+    thickness: number,
+    weights: { painted: Types.Weight[]; custom: Types.Weight[] },
+    options: Types.FEAExportOptions = {}
+): Types.FEAModel {
+    const units = options.units ?? (options.material ? tableUnits ?? 'm' : 'm');
+    const group = prepareExportGroup(meshes, tableUnits, { ...options, units });
+    const { nodes, getNodeId, isNewFace } = createMergedNodes();
+    const elements: Types.FEAElement[] = [];
+
+    // Solver node ids count from 1
+    const nodeId = (point: THREE.Vector3): number => getNodeId(point) + 1;
+
+    const exported = group.children as THREE.Mesh[];
+    const components = HULL_COMPONENTS.filter(component => exported.some(mesh => mesh.name === component));
+    components.forEach(component => {
+        const geometry = exported.find(mesh => mesh.name === component)!.geometry;
+        const position = geometry.attributes.position;
+        const index = geometry.index;
+        const count = index ? index.count : position.count;
+        const vertex = new THREE.Vector3();
+
+        // Triangles by node id, dropping those collapsed by node merging
+        const triangles: { nodes: number[]; face: number }[] = [];
+        for (let i = 0; i + 2 < count; i += 3) {
+            const ids = [0, 1, 2].map(k => nodeId(vertex.fromBufferAttribute(position, index ? index.getX(i + k) : i + k)));
+            if (new Set(ids).size === 3) triangles.push({ nodes: ids, face: i / 3 });
+        }
+
+        const addElement = (ids: number[], faces: number[]) => {
+            if (isNewFace(ids)) elements.push({ id: elements.length + 1, nodes: ids, component, faces });
+        };
+
+        for (let t = 0; t < triangles.length; t++) {
+            const next = triangles[t + 1];
+            const quad = options.quads !== false && next ? joinTriangles(triangles[t].nodes, next.nodes, nodes) : null;
+            if (quad) {
+                addElement(quad, [triangles[t].face, next.face]);
+                t++;
+            } else {
+                addElement(triangles[t].nodes, [triangles[t].face]);
+            }
+        }
+    });
+
+    group.traverse(child => {
+        if (child instanceof THREE.Mesh) {
+            child.geometry.dispose();
+            (child.material as THREE.Material).dispose();
+        }
+    });
+
+    // Each mass hangs off its nearest node with an offset, so its position is exact
+    const matrix = getExportMatrix(units, options.convention ?? 'y-up');
+    const system = options.material ? null : FEA_UNIT_SYSTEMS[units];
+    const lengthScale = getUnitScale(units);
+    const massUnit = system ? system.newtons / lengthScale : 1; // kg
+    const massScale = options.massScale ?? 1 / massUnit;
+    const masses: Types.FEAMass[] = [];
+    const attach = (weight: Types.Weight, source: Types.FEAMass['source']) => {
+        if (nodes.length === 0 || weight.magnitude === 0) return;
+        const point = weight.position.clone().applyMatrix4(matrix);
+        const nearest = nodes.reduce((best, node, i) =>
+            node.distanceToSquared(point) < nodes[best].distanceToSquared(point) ? i : best, 0);
+        masses.push({
+            id: elements.length + masses.length + 1,
+            node: nearest + 1,
+            mass: weight.magnitude * massScale,
+            offset: point.sub(nodes[nearest]),
+            source
+        });
+    };
+    weights.painted.forEach(w => attach(w, 'painted'));
+    weights.custom.forEach(w => attach(w, 'custom'));
+
+    stateManager.Debug && console.log(
+        `🧱 FEA model: ${nodes.length} nodes, ${elements.length} elements, ${masses.length} point masses`
+    );
+
+    return {
+        nodes,
+        elements,
+        masses,
+        components,
+        thickness: thickness * getUnitScale(tableUnits) / lengthScale,
+        units,
+        material: options.material ?? {
+            youngsModulus: DEFAULT_FEA_MATERIAL.youngsModulus * lengthScale / massUnit,
+            poissonRatio: DEFAULT_FEA_MATERIAL.poissonRatio,
+            density: DEFAULT_FEA_MATERIAL.density * Math.pow(lengthScale, 3) / massUnit
+        },
+        unitSystem: system && { mass: system.mass, force: system.force, stress: system.stress, density: system.density }
+    };
+}
+
+/** Property id of a component, shared by every solver format */
+export function getComponentPropertyId(component: Types.HullComponent): number {
+    return HULL_COMPONENTS.indexOf(component) + 1;
+}
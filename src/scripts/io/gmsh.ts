@@ -0,0 +1,80 @@
+// gmsh.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { getComponentPropertyId } from "./fea_model";
+
+// Gmsh element type numbers
+const TRIANGLE = 2;
+const QUADRANGLE = 3;
+
+/**
+ * Writes an FEA model as a Gmsh v4.1 ASCII mesh
+ * Each hull component is a surface entity tagged with its property id and carries a physical group of
+ * the same name. Nodes belong to the first surface that uses them. Point masses are not part of the format.
+ */
+export function writeGmshMSH(model: Types.FEAModel): string {
+    const lines: string[] = ['$MeshFormat', '4.1 0 8', '$EndMeshFormat'];
+
+    lines.push('$PhysicalNames', `${model.components.length}`);
+    model.components.forEach(component => lines.push(`2 ${getComponentPropertyId(component)} "${component}"`));
+    lines.push('$EndPhysicalNames');
+
+    // Surface entities with their bounding boxes
+    const entities = model.components.map(component => {
+        const elements = model.elements.filter(e => e.component === component);
+        const nodeIds = [...new Set(elements.flatMap(e => e.nodes))];
+        const coordinates = nodeIds.map(id => model.nodes[id - 1]);
+        const box = new THREE.Box3().setFromPoints(coordinates);
+        return {
+            tag: getComponentPropertyId(component),
+            elements,
+            nodeIds,
+            box: box.isEmpty() ? [0, 0, 0, 0, 0, 0] : [...box.min.toArray(), ...box.max.toArray()]
+        };
+    });
+
+    lines.push('$Entities', `0 0 ${entities.length} 0`);
+    entities.forEach(entity => lines.push(`${entity.tag} ${entity.box.join(' ')} 1 ${entity.tag} 0`));
+    lines.push('$EndEntities');
+
+    // Every node is listed once, in the block of the first entity using it
+    const owned = new Set<number>();
+    const nodeBlocks = entities.map(entity => {
+        const ids = entity.nodeIds.filter(id => !owned.has(id)).sort((a, b) => a - b);
+        ids.forEach(id => owned.add(id));
+        return { tag: entity.tag, ids };
+    }).filter(block => block.ids.length > 0);
+
+    const ownedIds = [...owned];
+    const minNode = ownedIds.reduce((min, id) => Math.min(min, id), Infinity);
+    const maxNode = ownedIds.reduce((max, id) => Math.max(max, id), 0);
+
+    lines.push('$Nodes', `${nodeBlocks.length} ${owned.size} ${owned.size > 0 ? minNode : 0} ${maxNode}`);
+    nodeBlocks.forEach(block => {
+        lines.push(`2 ${block.tag} 0 ${block.ids.length}`);
+        block.ids.forEach(id => lines.push(`${id}`));
+        block.ids.forEach(id => {
+            const node = model.nodes[id - 1];
+            lines.push(`${node.x} ${node.y} ${node.z}`);
+        });
+    });
+    lines.push('$EndNodes');
+
+    const elementBlocks = entities.flatMap(entity => [TRIANGLE, QUADRANGLE].map(type => ({
+        tag: entity.tag,
+        type,
+        elements: entity.elements.filter(e => e.nodes.length === (type === TRIANGLE ? 3 : 4))
+    }))).filter(block => block.elements.length > 0);
+    const ids = model.elements.map(e => e.id);
+    const minId = ids.reduce((min, id) => Math.min(min, id), Infinity);
+    const maxId = ids.reduce((max, id) => Math.max(max, id), 0);
+
+    lines.push('$Elements', `${elementBlocks.length} ${ids.length} ${ids.length > 0 ? minId : 0} ${maxId}`);
+    elementBlocks.forEach(block => {
+        lines.push(`2 ${block.tag} ${block.type} ${block.elements.length}`);
+        block.elements.forEach(e => lines.push([e.id, ...e.nodes].join(' ')));
+    });
+    lines.push('$EndElements');
+
+    return lines.join('\n') + '\n';
+}
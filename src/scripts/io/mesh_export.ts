@@ -0,0 +1,107 @@
+// mesh_export.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { getUnitScale } from "../utils/geometry/getters";
+import { stateManager } from "../state_manager";
+
+/** Exported surface components, in the order property and group ids are assigned */
+export const HULL_COMPONENTS: Types.HullComponent[] = ['hull', 'deck', 'bow', 'transom', 'keel'];
+
+/**
+ * Builds the matrix taking hull-local coordinates (meters, y up) to the export units and axes
+ * The z-up mapping is a cyclic permutation of the axes, so triangle winding and normals are preserved
+ */
+export function getExportMatrix(units: Types.Units, convention: Types.CoordinateConvention): THREE.Matrix4 {
+    const scale = 1 / getUnitScale(units);
+    const matrix = new THREE.Matrix4().makeScale(scale, scale, scale);
+    if (convention === 'z-up') {
+        matrix.premultiply(new THREE.Matrix4().set(
+            0, 0, 1, 0,
+            1, 0, 0, 0,
+            0, 1, 0, 0,
+            0, 0, 0, 1
+        ));
+    }
+    return matrix;
+}
+
+/**
+ * Copies the selected component meshes into a standalone group ready for the three.js exporters
+ * Transforms are baked into the geometry and only positions, normals and indices are kept
+ * @param meshes - Component meshes in hull-local coordinates, missing components are skipped
+ * @param tableUnits - Units of the offset table, used when options.units is not given
+ */
+export function prepareExportGroup(
+    meshes: Partial<Record<Types.HullComponent, THREE.Mesh | null>>,
+    tableUnits: Types.Units,
+    options: Types.MeshExportOptions = {}
+): THREE.Group {
+    const matrix = getExportMatrix(options.units ?? tableUnits, options.convention ?? 'y-up');
+    const group = new THREE.Group();
+    group.name = 'hullExport';
+
+    (options.components ?? HULL_COMPONENTS).forEach(component => {
+        const source = meshes[component];
+        if (!source || !source.geometry.attributes.position) return;
+
+        const geometry = new THREE.BufferGeometry();
+        geometry.setAttribute('position', source.geometry.attributes.position.clone());
+        if (source.geometry.index) geometry.setIndex(source.geometry.index.clone());
+
+        source.updateMatrix();
+        geometry.applyMatrix4(new THREE.Matrix4().multiplyMatrices(matrix, source.matrix));
+        geometry.computeVertexNormals();
+
+        const color = (source.material as THREE.MeshStandardMaterial).color;
+        const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({
+            color: color ? color.clone() : new THREE.Color(0xcccccc),
+            side: THREE.DoubleSide
+        }));
+        mesh.name = component;
+        group.add(mesh);
+    });
+
+    group.updateMatrixWorld(true);
+    return group;
+}
+
+/**
+ * Writes the hull surface components to STL, OBJ or glTF
+ * Binary STL and GLB come back as an ArrayBuffer, the text formats as a string.
+ * OBJ output carries one group per component so CAD tools can select them separately.
+ */
+export async function exportHullMesh(
+    meshes: Partial<Record<Types.HullComponent, THREE.Mesh | null>>,
+    tableUnits: Types.Units,
+    format: Types.MeshExportFormat,
+    options: Types.MeshExportOptions = {}
+): Promise<string | ArrayBuffer> {
+    const group = prepareExportGroup(meshes, tableUnits, options);
+    stateManager.Debug && console.log(`💾 Exporting ${group.children.length} hull components as ${format}`);
+
+    try {
+        switch (format) {
+            case 'stl':
+                return new STLExporter().parse(group, { binary: true }).buffer;
+            case 'stl-ascii':
+                return new STLExporter().parse(group, { binary: false });
+            case 'obj':
+                // OBJExporter names objects only; a matching group line makes components selectable in most tools
+                return new OBJExporter().parse(group).replace(/^o (.+)$/gm, 'o $1\ng $1');
+            case 'gltf':
+                return JSON.stringify(await new GLTFExporter().parseAsync(group, { binary: false }));
+            case 'glb':
+                return await new GLTFExporter().parseAsync(group, { binary: true }) as ArrayBuffer;
+        }
+    } finally {
+        group.traverse(child => {
+            if (child instanceof THREE.Mesh) {
+                child.geometry.dispose();
+                (child.material as THREE.Material).dispose();
+            }
+        });
+    }
+}
@@ -0,0 +1,101 @@
+// nastran.ts
+import * as Types from "../../types";
+import { getComponentPropertyId } from "./fea_model";
+
+const MATERIAL_ID = 1;
+
+/** Left-aligns a value in a fixed-width bulk data field */
+function field(value: string | number, width = 8): string {
+    return String(value).padEnd(width).slice(0, width);
+}
+
+/**
+ * Formats a real number to fit a bulk data field
+ * Uses the shortest plain or exponent form that keeps the most significant digits
+ */
+function formatReal(value: number, width = 8): string {
+    if (value === 0) return '0.';
+    for (let digits = width; digits > 0; digits--) {
+        const plain = Number(value.toPrecision(digits)).toString();
+        if (!plain.includes('e')) {
+            const text = plain.includes('.') ? plain : `${plain}.`;
+            if (text.length <= width) return text;
+        }
+
+        // Nastran reals need a decimal point, trailing zeros of the mantissa are dropped
+        const [mantissa, exponent] = value.toExponential(digits - 1).split('e');
+        const trimmed = mantissa.includes('.') ? mantissa.replace(/0+$/, '') : `${mantissa}.`;
+        const text = `${trimmed}E${exponent}`;
+        if (text.length <= width) return text;
+    }
+    return value.toExponential(0).replace('e', '.E');
+}
+
+/** Small-field card: an 8-character name followed by 8-character fields */
+function smallCard(name: string, values: (string | number)[]): string {
+    return field(name) + values.map(v => field(v)).join('').trimEnd();
+}
+
+/**
+ * Large-field card: 16-character fields, four per line, continued with '*'
+ * Used for coordinates and masses, which need more digits than a small field holds
+ */
+function largeCard(name: string, values: (string | number)[]): string {
+    const lines: string[] = [];
+    for (let i = 0; i < values.length; i += 4) {
+        const prefix = i === 0 ? `${name}*` : '*';
+        lines.push(field(prefix) + values.slice(i, i + 4).map(v => field(v, 16)).join('').trimEnd());
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Writes an FEA model as a Nastran bulk data deck
+ * Contains GRID nodes, CTRIA3/CQUAD4 shells with one PSHELL per hull component, a MAT1 material
+ * and CONM2 point masses for painted and custom weights
+ */
+export function writeNastranBDF(model: Types.FEAModel): string {
+    const { material, unitSystem } = model;
+    const lines: string[] = [
+        '$ Hull shell model',
+        ...(unitSystem ? [
+            `$ Lengths in ${model.units ?? 'm'}, masses in ${unitSystem.mass}, forces in ${unitSystem.force}`,
+            `$ Stresses in ${unitSystem.stress}, densities in ${unitSystem.density}`
+        ] : [`$ Lengths in ${model.units ?? 'm'}; masses and material as given in the export options`]),
+        `$ ${model.nodes.length} nodes, ${model.elements.length} shell elements, ${model.masses.length} point masses`,
+        'BEGIN BULK',
+        '$ Material',
+        smallCard('MAT1', [MATERIAL_ID, formatReal(material.youngsModulus), '', formatReal(material.poissonRatio), formatReal(material.density)]),
+        '$ Shell properties per component'
+    ];
+
+    model.components.forEach(component => {
+        lines.push(`$ ${component}`);
+        lines.push(smallCard('PSHELL', [getComponentPropertyId(component), MATERIAL_ID, formatReal(model.thickness), MATERIAL_ID, '', MATERIAL_ID]));
+    });
+
+    lines.push('$ Nodes');
+    model.nodes.forEach((node, i) => {
+        lines.push(largeCard('GRID', [i + 1, '', formatReal(node.x, 16), formatReal(node.y, 16), formatReal(node.z, 16)]));
+    });
+
+    lines.push('$ Shell elements');
+    model.elements.forEach(element => {
+        const name = element.nodes.length === 4 ? 'CQUAD4' : 'CTRIA3';
+        lines.push(smallCard(name, [element.id, getComponentPropertyId(element.component), ...element.nodes]));
+    });
+
+    if (model.masses.length > 0) {
+        lines.push('$ Point masses');
+        model.masses.forEach(mass => {
+            lines.push(`$ ${mass.source} weight`);
+            lines.push(largeCard('CONM2', [
+                mass.id, mass.node, 0, formatReal(mass.mass, 16),
+                formatReal(mass.offset.x, 16), formatReal(mass.offset.y, 16), formatReal(mass.offset.z, 16)
+            ]));
+        });
+    }
+
+    lines.push('ENDDATA');
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,41 @@
+// node_merging.ts
+import * as THREE from 'three';
+
+/** Nodes merged by position and the faces built on them, as the solver exporters number them */
+export interface MergedNodes {
+    nodes: THREE.Vector3[];
+    getNodeId: (point: THREE.Vector3) => number; // Index in nodes, adding the point when no node lies there yet
+    isNewFace: (ids: number[]) => boolean;       // Records the face; false when one on the same nodes came first
+}
+
+/**
+ * Starts an empty set of merged nodes
+ * Points equal to six decimals share a node, so faces of neighbouring components connect
+ */
+export function createMergedNodes(): MergedNodes {
+    const nodes: THREE.Vector3[] = [];
+    const nodeIds = new Map<string, number>();
+    const faceKeys = new Set<string>();
+
+    const getNodeId = (point: THREE.Vector3): number => {
+        const key = `${point.x.toFixed(6)},${point.y.toFixed(6)},${point.z.toFixed(6)}`;
+        let id = nodeIds.get(key);
+        if (id === undefined) {
+            // Meshes store single precision, so further digits are noise
+            nodes.push(new THREE.Vector3(...point.toArray().map(v => Number(v.toPrecision(7)))));
+            id = nodes.length - 1;
+            nodeIds.set(key, id);
+        }
+        return id;
+    };
+
+    // Port and starboard faces coincide where the half-breadth is zero; such doubles are kept once
+    const isNewFace = (ids: number[]): boolean => {
+        const key = [...ids].sort((a, b) => a - b).join(',');
+        if (faceKeys.has(key)) return false;
+        faceKeys.add(key);
+        return true;
+    };
+
+    return { nodes, getNodeId, isNewFace };
+}
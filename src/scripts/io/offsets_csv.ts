@@ -0,0 +1,334 @@
+// offsets_csv.ts
+import * as Types from "../../types";
+import { getSortedStations, getSortedWaterlines, getStationOffsets } from "../utils/geometry/getters";
+import { stateManager } from "../state_manager";
+import { convertLength, isFeetInchesEighths, parseFeetInchesEighths } from "./units";
+
+const UNITS: Types.QuoteTableMetadata['units'][] = ['m', 'mm', 'ft', 'in'];
+const STARBOARD_SUFFIX = /\s*(s|sb|stbd|starboard)$/i;
+const PORT_SUFFIX = /\s*(p|ps|port)$/i;
+const KNUCKLE_LINE = /^#\s*knuckle\s*:/i;
+const KEEL_LINE = /^#\s*keel\s*:/i;
+const KNUCKLE_TYPES: Types.KnuckleType[] = ['chine', 'spray-rail', 'knuckle'];
+
+/** Header cell of the grid, split into its position and side */
+interface AxisLabel {
+    position: number;
+    side: 'port' | 'starboard';
+}
+
+/** Picks the separator that splits the line into the most cells */
+function detectSeparator(line: string): string {
+    return [',', ';', '\t'].reduce((best, candidate) =>
+        line.split(candidate).length > line.split(best).length ? candidate : best, ',');
+}
+
+/**
+ * Parses a number from a spreadsheet cell
+ * Accepts decimal commas when the separator is not a comma, and feet-inches-eighths such as "3-04-5"
+ * @param feetScale - Table units per foot, applied to feet-inches-eighths cells; null where the notation is not accepted
+ */
+function parseNumber(cell: string, separator: string, feetScale: number | null = 1): number | null {
+    const text = separator === ',' ? cell.trim() : cell.trim().replace(',', '.');
+    if (text === '') return null;
+    if (feetScale !== null) {
+        const feet = parseFeetInchesEighths(text);
+        if (feet !== null) return feet * feetScale;
+    }
+    const value = Number(text);
+    return Number.isFinite(value) ? value : null;
+}
+
+/** Reads a station or waterline header such as "2.5", "2.5 P" or "2.5 stbd" */
+function parseAxisLabel(cell: string, separator: string, feetScale: number | null = 1): AxisLabel | null {
+    const text = cell.trim();
+    const side = STARBOARD_SUFFIX.test(text) ? 'starboard' : 'port';
+    const position = parseNumber(text.replace(STARBOARD_SUFFIX, '').replace(PORT_SUFFIX, ''), separator, feetScale);
+    return position === null ? null : { position, side };
+}
+
+/**
+ * Reads "key: value" pairs from a comment line into metadata
+ * Pairs are separated by ';' or ',', e.g. "# units: mm; weight: 1500". Keys keelStart, keelEnd, keelDepth,
+ * keelWidth and keelRake fill the keel profile.
+ */
+function parseMetadataLine(line: string, metadata: Partial<Types.QuoteTableMetadata>, keel: Partial<Types.KeelProfile>): void {
+    line.replace(/^#/, '').split(/[;,]/).forEach(pair => {
+        const [rawKey, ...rest] = pair.split(/[:=]/);
+        const key = rawKey?.trim();
+        const value = rest.join(':').trim();
+        if (!key || !value) return;
+
+        switch (key.toLowerCase()) {
+            case 'units':
+                if (UNITS.includes(value as Types.QuoteTableMetadata['units'])) {
+                    metadata.units = value as Types.QuoteTableMetadata['units'];
+                }
+                break;
+            case 'weight':
+            case 'thickness':
+                if (Number.isFinite(Number(value))) metadata[key.toLowerCase() as 'weight' | 'thickness'] = Number(value);
+                break;
+            case 'symmetry':
+                if (value === 'symmetric' || value === 'asymmetric') metadata.symmetry = value;
+                break;
+            case 'haskeel':
+                metadata.hasKeel = value.toLowerCase() === 'true';
+                break;
+            case 'haschine':
+                metadata.hasChine = value.toLowerCase() === 'true';
+                break;
+            case 'keelstart':
+            case 'keelend':
+            case 'keeldepth':
+            case 'keelwidth':
+            case 'keelrake':
+                if (Number.isFinite(Number(value))) {
+                    keel[key.slice(4).toLowerCase() as keyof Types.KeelProfile] = Number(value);
+                }
+                break;
+        }
+    });
+}
+
+/**
+ * Reads a half-breadth at any height by linear interpolation between a station's sorted offsets
+ * Heights outside the station's range take the nearest offset
+ */
+function getHalfBreadthAt(offsets: Types.WaterlineData[], height: number, side: 'port' | 'starboard'): number {
+    const breadth = (wl: Types.WaterlineData) =>
+        side === 'starboard' && wl.halfBreadthStarboard !== undefined ? wl.halfBreadthStarboard : wl.halfBreadthPort;
+
+    const upper = offsets.findIndex(wl => wl.height >= height);
+    if (upper <= 0 || offsets[upper].height === height) return breadth(offsets[upper < 0 ? offsets.length - 1 : upper]);
+
+    const a = offsets[upper - 1];
+    const b = offsets[upper];
+    const t = b.height > a.height ? (height - a.height) / (b.height - a.height) : 0;
+    return breadth(a) + (breadth(b) - breadth(a)) * t;
+}
+
+/**
+ * Parses an offset table from CSV text
+ * The first non-comment line is the header: a corner cell followed by station positions ("waterline-rows")
+ * or waterline heights ("station-rows"). Each following line starts with the other axis value.
+ * Headers suffixed with S/stbd/starboard hold starboard half-breadths; everything else is port.
+ * Units come from a "# units: mm" comment or a unit in the corner cell such as "WL \ ST (mm)".
+ * Cells in feet-inches-eighths ("3-04-5") are converted to the table units, which default to feet when such cells appear;
+ * tables declared in metres or millimetres do not accept them.
+ * Comment lines "# knuckle: station height port [starboard] [type]" and "# keel: station depth width [rake]" add
+ * knuckle points and keel sections to stations of the grid.
+ */
+export function parseOffsetsCSV(text: string, options: Types.OffsetCSVOptions = {}): Types.OffsetParseResult {
+    const errors: Types.OffsetParseError[] = [];
+    const metadata: Partial<Types.QuoteTableMetadata> = { ...options.metadata };
+    const lines = text.split(/\r?\n/).map((line, index) => ({ line, row: index + 1 }));
+
+    // Knuckle and station keel lines need the grid's units, so they are read once the grid is known
+    const commentLines = lines.filter(l => l.line.trim().startsWith('#'));
+    const stationLines = commentLines.filter(l => KNUCKLE_LINE.test(l.line.trim()) || KEEL_LINE.test(l.line.trim()));
+    const keelProfile: Partial<Types.KeelProfile> = {};
+    commentLines
+        .filter(l => !stationLines.includes(l))
+        .forEach(l => parseMetadataLine(l.line.trim(), metadata, keelProfile));
+    const gridLines = lines.filter(l => l.line.trim() !== '' && !l.line.trim().startsWith('#'));
+
+    if (gridLines.length < 2) {
+        errors.push({ row: gridLines[0]?.row ?? 1, column: 1, value: '', message: 'Offset grid needs a header line and at least one data line' });
+        return { table: null, layout: options.layout ?? 'waterline-rows', errors };
+    }
+
+    const separator = options.separator ?? detectSeparator(gridLines[0].line);
+    const header = gridLines[0].line.split(separator);
+    const corner = header[0].trim();
+
+    // Corner cell such as "WL \ ST (mm)" names the row axis and may carry the units
+    const layout = options.layout ?? (/^\s*(st|station)/i.test(corner) ? 'station-rows' : 'waterline-rows');
+    const cornerUnits = corner.match(/\((m|mm|ft|in)\)/);
+    if (cornerUnits && !metadata.units) metadata.units = cornerUnits[1] as Types.QuoteTableMetadata['units'];
+
+    // Feet-inches-eighths cells are read in feet and converted to imperial table units; a metric sheet reports them as bad cells
+    const imperial = !metadata.units || metadata.units === 'ft' || metadata.units === 'in';
+    const usesFeetInches = imperial && gridLines.some(l => l.line.split(separator).some(cell => isFeetInchesEighths(cell)));
+    if (usesFeetInches && !metadata.units) metadata.units = 'ft';
+    const feetScale = imperial ? convertLength(1, 'ft', metadata.units ?? 'm') : null;
+
+    const columns = header.slice(1).map((cell, i) => {
+        const label = parseAxisLabel(cell, separator, feetScale);
+        if (!label && cell.trim() !== '') {
+            errors.push({ row: gridLines[0].row, column: i + 2, value: cell, message: 'Header is not a number' });
+        }
+        return label;
+    });
+
+    // Collect half-breadths per station and height before assembling the table
+    const offsets = new Map<number, Map<number, { port?: number; starboard?: number }>>();
+    const setOffset = (station: number, height: number, side: 'port' | 'starboard', value: number) => {
+        if (!offsets.has(station)) offsets.set(station, new Map());
+        const heights = offsets.get(station)!;
+        heights.set(height, { ...heights.get(height), [side]: value });
+    };
+
+    gridLines.slice(1).forEach(({ line, row }) => {
+        const cells = line.split(separator);
+        const rowLabel = parseAxisLabel(cells[0], separator, feetScale);
+        if (!rowLabel) {
+            errors.push({ row, column: 1, value: cells[0], message: `${layout === 'station-rows' ? 'Station' : 'Waterline'} is not a number` });
+            return;
+        }
+
+        columns.forEach((column, i) => {
+            if (!column) return;
+            const cell = cells[i + 1] ?? '';
+            const value = parseNumber(cell, separator, feetScale);
+
+            if (value === null) {
+                errors.push({ row, column: i + 2, value: cell, message: cell.trim() === '' ? 'Missing half-breadth' : 'Half-breadth is not a number' });
+                return;
+            }
+            if (value < 0) {
+                errors.push({ row, column: i + 2, value: cell, message: 'Half-breadth is negative' });
+                return;
+            }
+
+            // Rows are waterlines in the default layout, stations in the transposed one
+            const side = column.side === 'starboard' || rowLabel.side === 'starboard' ? 'starboard' : 'port';
+            if (layout === 'waterline-rows') setOffset(column.position, rowLabel.position, side, value);
+            else setOffset(rowLabel.position, column.position, side, value);
+        });
+    });
+
+    // "# knuckle: station height port [starboard] [type]" and "# keel: station depth width [rake]"
+    const knuckles = new Map<number, Types.KnucklePoint[]>();
+    const keels = new Map<number, Types.KeelSection>();
+    stationLines.forEach(({ line, row }) => {
+        const text = line.trim();
+        const isKnuckle = KNUCKLE_LINE.test(text);
+        const tokens = text.replace(isKnuckle ? KNUCKLE_LINE : KEEL_LINE, '').trim().split(/\s+/).filter(t => t !== '');
+        const type = isKnuckle ? KNUCKLE_TYPES.find(t => t === tokens[tokens.length - 1]) : undefined;
+        if (type) tokens.pop();
+
+        // Keel rake is an angle, every other value a length
+        const values = tokens.map((token, i) => parseNumber(token, separator, !isKnuckle && i === 3 ? null : feetScale));
+        const position = values[0];
+        const fail = (message: string) => errors.push({ row, column: 1, value: line, message });
+
+        if (values.some(v => v === null) || values.length < 3 || values.length > 4) {
+            return fail(isKnuckle
+                ? 'Knuckle needs station, height, half-breadth and an optional starboard half-breadth'
+                : 'Keel needs station, depth, width and an optional rake');
+        }
+        if (position === null || !offsets.has(position)) return fail(`Station ${tokens[0]} is not in the grid`);
+
+        if (isKnuckle) {
+            const [, height, port, starboard] = values as number[];
+            const knuckle: Types.KnucklePoint = { height, halfBreadthPort: port };
+            if (starboard !== undefined) knuckle.halfBreadthStarboard = starboard;
+            if (type) knuckle.type = type;
+            knuckles.set(position, [...knuckles.get(position) ?? [], knuckle]);
+        } else {
+            const [, depth, width, rake] = values as number[];
+            keels.set(position, rake !== undefined ? { depth, width, rake } : { depth, width });
+        }
+    });
+
+    let hasStarboard = false;
+    const stations: Types.Station[] = [...offsets.entries()].map(([position, heights]) => ({
+        position,
+        waterlines: [...heights.entries()]
+            .filter(([, offset]) => offset.port !== undefined || offset.starboard !== undefined)
+            .map(([height, offset]) => {
+                const waterline: Types.WaterlineData = { height, halfBreadthPort: offset.port ?? offset.starboard! };
+                if (offset.starboard !== undefined) {
+                    waterline.halfBreadthStarboard = offset.starboard;
+                    hasStarboard = true;
+                }
+                return waterline;
+            })
+            .sort((a, b) => a.height - b.height),
+        ...(knuckles.has(position) ? { knuckles: knuckles.get(position)!.sort((a, b) => a.height - b.height) } : {}),
+        ...(keels.has(position) ? { keel: keels.get(position)! } : {})
+    })).sort((a, b) => a.position - b.position);
+
+    const keel = keelProfile.start !== undefined && keelProfile.end !== undefined
+        ? keelProfile as Types.KeelProfile
+        : undefined;
+
+    const table: Types.QuoteTable = {
+        stations,
+        metadata: {
+            weight: metadata.weight ?? 0,
+            thickness: metadata.thickness ?? 0,
+            units: metadata.units ?? 'm',
+            symmetry: metadata.symmetry ?? (hasStarboard ? 'asymmetric' : 'symmetric'),
+            ...(metadata.hasKeel !== undefined ? { hasKeel: metadata.hasKeel } : {}),
+            ...(metadata.hasChine !== undefined ? { hasChine: metadata.hasChine } : {}),
+            ...(keel ? { keel } : {})
+        }
+    };
+
+    stateManager.Debug && console.log(`📄 Parsed ${stations.length} stations from CSV with ${errors.length} errors`);
+    return { table, layout, errors };
+}
+
+/**
+ * Writes an offset table as CSV with a metadata comment line
+ * Starboard columns are written for asymmetric tables or whenever a starboard offset is present.
+ * The grid holds every height of the table; a station measured at other heights gets the half-breadth read off
+ * its own curve there, as normalizeQuoteTable resamples it, so no cell is left empty.
+ * Knuckle points and station keel sections follow the metadata as "# knuckle:" and "# keel:" comment lines.
+ */
+export function offsetsToCSV(table: Types.QuoteTable, options: Types.OffsetCSVOptions = {}): string {
+    const layout = options.layout ?? 'waterline-rows';
+    const separator = options.separator ?? ',';
+    const stations = getSortedStations(table);
+    const heights = getSortedWaterlines(table);
+    const { metadata } = table;
+
+    const withStarboard = metadata.symmetry === 'asymmetric'
+        || stations.some(s => s.waterlines.some(wl => wl.halfBreadthStarboard !== undefined));
+    const sides: ('port' | 'starboard')[] = withStarboard ? ['port', 'starboard'] : ['port'];
+
+    const lookup = (station: Types.Station, height: number, side: 'port' | 'starboard'): string => {
+        if (station.waterlines.length === 0) return '';
+        return String(getHalfBreadthAt(getStationOffsets(station), height, side));
+    };
+    const label = (position: number, side: 'port' | 'starboard') => withStarboard ? `${position} ${side === 'port' ? 'P' : 'S'}` : `${position}`;
+
+    const meta = [
+        `units: ${metadata.units}`,
+        `weight: ${metadata.weight}`,
+        `thickness: ${metadata.thickness}`,
+        ...(metadata.symmetry ? [`symmetry: ${metadata.symmetry}`] : []),
+        ...(metadata.hasKeel !== undefined ? [`hasKeel: ${metadata.hasKeel}`] : []),
+        ...(metadata.hasChine !== undefined ? [`hasChine: ${metadata.hasChine}`] : []),
+        ...(metadata.keel ? (['start', 'end', 'depth', 'width', 'rake'] as const)
+            .filter(key => metadata.keel![key] !== undefined)
+            .map(key => `keel${key[0].toUpperCase()}${key.slice(1)}: ${metadata.keel![key]}`) : [])
+    ].join('; ');
+
+    const lines = [`# ${meta}`];
+    stations.forEach(station => {
+        [...station.knuckles ?? []].sort((a, b) => a.height - b.height).forEach(k => {
+            const values = [station.position, k.height, k.halfBreadthPort, k.halfBreadthStarboard, k.type].filter(v => v !== undefined);
+            lines.push(`# knuckle: ${values.join(' ')}`);
+        });
+        if (station.keel) {
+            const { depth, width, rake } = station.keel;
+            lines.push(`# keel: ${[station.position, depth, width, rake].filter(v => v !== undefined).join(' ')}`);
+        }
+    });
+    if (layout === 'waterline-rows') {
+        lines.push([`WL \\ ST (${metadata.units})`, ...stations.flatMap(s => sides.map(side => label(s.position, side)))].join(separator));
+        heights.forEach(height => {
+            lines.push([`${height}`, ...stations.flatMap(s => sides.map(side => lookup(s, height, side)))].join(separator));
+        });
+    } else {
+        lines.push([`ST \\ WL (${metadata.units})`, ...heights.map(h => `${h}`)].join(separator));
+        stations.forEach(station => sides.forEach(side => {
+            lines.push([label(station.position, side), ...heights.map(h => lookup(station, h, side))].join(separator));
+        }));
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,196 @@
+// project.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { stateManager } from "../state_manager";
+import { validateQuoteTable } from "../utils/geometry/validators";
+
+export const PROJECT_FORMAT = 'hull-visualizer-project';
+export const PROJECT_VERSION = 1;
+
+const VIEWS: Types.Views[] = ['front', 'back', 'left', 'right', 'top', 'bottom'];
+const CAMERA_MODES: Types.CameraModes[] = ['perspective', 'orthographic'];
+const INTERPOLATION_SCHEMES: Types.InterpolationScheme[] = ['linear', 'catmull-rom', 'natural-cubic', 'monotone-cubic'];
+
+/** Session sections for files that predate them, matching a fresh visualizer */
+function getDefaultSections(): Omit<Types.HullProject, 'format' | 'version' | 'quoteTable'> {
+    return {
+        weights: { painted: [], custom: [] },
+        brush: { size: 0.5, weightPerFace: 10 },
+        state: {
+            hullDetailLevel: { enableSmoothing: true, stationMultiplier: 2, waterlineMultiplier: 2 },
+            activeGroups: { deck: true, hull: true, stations: false, waterlines: false },
+            wireframe: false,
+            cameraMode: 'perspective',
+            orthoView: 'front',
+            floating: false
+        },
+        camera: { target: [0, 0, 0], azimuth: 0, polar: Math.PI / 3, distance: 10 }
+    };
+}
+
+/**
+ * Upgrades a file from one version to the next, keyed by the version it upgrades from
+ * Version 0 is a bare QuoteTable, as saved before project files existed
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+    0: table => ({
+        format: PROJECT_FORMAT,
+        version: 1,
+        quoteTable: table,
+        ...getDefaultSections()
+    })
+};
+
+/** Checks that a parsed value is a plain object, so its fields can be read */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Reads the version of a parsed file; bare offset tables count as version 0 */
+function getVersion(data: unknown): number | null {
+    if (!isObject(data)) return null;
+    if (data.format === PROJECT_FORMAT && typeof data.version === 'number' && Number.isInteger(data.version)) return data.version;
+    if (Array.isArray(data.stations) && data.metadata) return 0;
+    return null;
+}
+
+/**
+ * Checks that every station has the fields the offset table validator reads
+ * Returns the problems with their paths; the table is only validated further when there are none
+ */
+function validateStationShapes(stations: unknown[]): string[] {
+    const errors: string[] = [];
+    const isObjectList = (value: unknown) => Array.isArray(value) && value.every(isObject);
+
+    stations.forEach((station, i) => {
+        const path = `quoteTable.stations[${i}]`;
+        if (!isObject(station)) {
+            errors.push(`${path}: expected a station`);
+            return;
+        }
+        if (typeof station.position !== 'number') errors.push(`${path}.position: expected a number`);
+        if (!isObjectList(station.waterlines)) errors.push(`${path}.waterlines: expected a list of waterlines`);
+        if (station.knuckles !== undefined && !isObjectList(station.knuckles)) {
+            errors.push(`${path}.knuckles: expected a list of knuckle points`);
+        }
+        if (station.keel !== undefined && !isObject(station.keel)) errors.push(`${path}.keel: expected a keel section`);
+    });
+
+    return errors;
+}
+
+/** Checks the parsed file against the current schema and lists each problem with its path */
+function validateProject(data: Record<string, unknown>): string[] {
+    const errors: string[] = [];
+    const field = (value: unknown, key: string) => isObject(value) ? value[key] : undefined;
+    const expect = (ok: boolean, path: string, message: string) => {
+        if (!ok) errors.push(`${path}: ${message}`);
+    };
+    const expectNumber = (value: unknown, path: string) =>
+        expect(typeof value === 'number' && Number.isFinite(value), path, 'expected a number');
+    const expectBoolean = (value: unknown, path: string) => expect(typeof value === 'boolean', path, 'expected true or false');
+    const expectVector = (value: unknown, path: string) =>
+        expect(Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number' && Number.isFinite(v)), path, 'expected [x, y, z]');
+
+    expect(data.version === PROJECT_VERSION, 'version', `expected ${PROJECT_VERSION}`);
+
+    const table = data.quoteTable;
+    if (!isObject(table) || !Array.isArray(table.stations) || !isObject(table.metadata)) {
+        errors.push('quoteTable: expected an offset table with stations and metadata');
+    } else {
+        const shapeErrors = validateStationShapes(table.stations);
+        if (table.metadata.keel !== undefined && !isObject(table.metadata.keel)) {
+            shapeErrors.push('quoteTable.metadata.keel: expected a keel profile');
+        }
+        errors.push(...shapeErrors);
+        if (shapeErrors.length === 0) {
+            validateQuoteTable(table as unknown as Types.QuoteTable).diagnostics
+                .filter(d => d.severity === 'error')
+                .forEach(d => errors.push(`quoteTable: ${d.message}`));
+        }
+    }
+
+    (['painted', 'custom'] as const).forEach(kind => {
+        const weights = field(data.weights, kind);
+        expect(Array.isArray(weights), `weights.${kind}`, 'expected a list of weights');
+        if (!Array.isArray(weights)) return;
+        weights.forEach((w: unknown, i: number) => {
+            expectVector(field(w, 'position'), `weights.${kind}[${i}].position`);
+            expectNumber(field(w, 'magnitude'), `weights.${kind}[${i}].magnitude`);
+        });
+    });
+
+    expectNumber(field(data.brush, 'size'), 'brush.size');
+    expectNumber(field(data.brush, 'weightPerFace'), 'brush.weightPerFace');
+
+    const state = data.state;
+    if (!isObject(state)) {
+        errors.push('state: expected an object');
+    } else {
+        const detail = state.hullDetailLevel;
+        (['stationMultiplier', 'waterlineMultiplier'] as const).forEach(key =>
+            expectNumber(field(detail, key), `state.hullDetailLevel.${key}`));
+        expectBoolean(field(detail, 'enableSmoothing'), 'state.hullDetailLevel.enableSmoothing');
+        const interpolation = field(detail, 'interpolation');
+        expect(interpolation === undefined || INTERPOLATION_SCHEMES.some(scheme => scheme === interpolation),
+            'state.hullDetailLevel.interpolation', `expected one of ${INTERPOLATION_SCHEMES.join(', ')}`);
+        (['deck', 'hull', 'stations', 'waterlines'] as const).forEach(key =>
+            expectBoolean(field(state.activeGroups, key), `state.activeGroups.${key}`));
+        expectBoolean(state.wireframe, 'state.wireframe');
+        expectBoolean(state.floating, 'state.floating');
+        expect(CAMERA_MODES.some(mode => mode === state.cameraMode), 'state.cameraMode', `expected one of ${CAMERA_MODES.join(', ')}`);
+        expect(VIEWS.some(view => view === state.orthoView), 'state.orthoView', `expected one of ${VIEWS.join(', ')}`);
+    }
+
+    expectVector(field(data.camera, 'target'), 'camera.target');
+    expectNumber(field(data.camera, 'azimuth'), 'camera.azimuth');
+    expectNumber(field(data.camera, 'polar'), 'camera.polar');
+    expectNumber(field(data.camera, 'distance'), 'camera.distance');
+
+    return errors;
+}
+
+/**
+ * Parses a project file, upgrading older versions to the current one before validating it
+ * Files newer than this library are refused rather than guessed at
+ */
+export function parseProject(json: string): Types.ProjectLoadResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (error) {
+        return { project: null, migratedFrom: null, errors: [`File is not valid JSON: ${(error as Error).message}`] };
+    }
+
+    const version = getVersion(data);
+    if (version === null) {
+        return { project: null, migratedFrom: null, errors: ['File is neither a hull project nor an offset table'] };
+    }
+    if (version > PROJECT_VERSION) {
+        return { project: null, migratedFrom: null, errors: [`Project version ${version} is newer than supported version ${PROJECT_VERSION}`] };
+    }
+
+    for (let v = version; v < PROJECT_VERSION; v++) {
+        data = MIGRATIONS[v](data);
+    }
+    if (version < PROJECT_VERSION) {
+        stateManager.Debug && console.log(`📂 Migrated project from version ${version} to ${PROJECT_VERSION}`);
+    }
+
+    const errors = isObject(data) ? validateProject(data) : ['File is not a hull project'];
+    return {
+        project: errors.length === 0 ? data as Types.HullProject : null,
+        migratedFrom: version < PROJECT_VERSION ? version : null,
+        errors
+    };
+}
+
+/** Converts weights to their project form */
+export function toProjectWeights(weights: Types.Weight[]): Types.ProjectWeight[] {
+    return weights.map(w => ({ position: w.position.toArray() as [number, number, number], magnitude: w.magnitude }));
+}
+
+/** Converts project weights back to point masses */
+export function fromProjectWeights(weights: Types.ProjectWeight[]): Types.Weight[] {
+    return weights.map(w => ({ position: new THREE.Vector3(...w.position), magnitude: w.magnitude }));
+}
@@ -0,0 +1,92 @@
+// units.ts
+import * as Types from "../../types";
+import { getUnitScale } from "../utils/geometry/getters";
+
+/**
+ * Feet-inches-eighths offset such as "3-04-5" (3 ft 4 5/8 in)
+ * All three fields are required and inches take two digits, so ranges like "10-5" are not read as lengths.
+ * An optional sign leads, an optional trailing "+" or "-" after the eighths adds or removes a sixteenth
+ */
+const FEET_INCHES_EIGHTHS = /^\s*([+-])?(\d+)-(\d{2})-([0-7])([+-])?\s*$/;
+
+/** Converts a length between table units */
+export function convertLength(value: number, from: Types.Units, to: Types.Units): number {
+    return from === to ? value : value * getUnitScale(from) / getUnitScale(to);
+}
+
+/**
+ * Converts every length of an offset table to other units
+ * Station positions, waterline heights, half-breadths, knuckle points, keel bars and the shell thickness are scaled;
+ * keel rake is an angle and metadata.weight is a mass in kg and carries over unchanged
+ */
+export function convertQuoteTable(table: Types.QuoteTable, units: Types.QuoteTableMetadata['units']): Types.QuoteTable {
+    const from = table.metadata.units;
+    const convert = (value: number) => convertLength(value, from, units);
+    const convertOffset = (wl: Types.WaterlineData): Types.WaterlineData => ({
+        height: convert(wl.height),
+        halfBreadthPort: convert(wl.halfBreadthPort),
+        ...(wl.halfBreadthStarboard !== undefined ? { halfBreadthStarboard: convert(wl.halfBreadthStarboard) } : {})
+    });
+    const convertKeel = <T extends Partial<Types.KeelSection>>(keel: T): T => ({
+        ...keel,
+        ...(keel.depth !== undefined ? { depth: convert(keel.depth) } : {}),
+        ...(keel.width !== undefined ? { width: convert(keel.width) } : {})
+    });
+    const keel = table.metadata.keel;
+
+    return {
+        metadata: {
+            ...table.metadata,
+            units,
+            thickness: convert(table.metadata.thickness),
+            ...(keel ? { keel: { ...convertKeel(keel), start: convert(keel.start), end: convert(keel.end) } } : {})
+        },
+        stations: table.stations.map(station => ({
+            position: convert(station.position),
+            waterlines: station.waterlines.map(convertOffset),
+            ...(station.knuckles ? {
+                knuckles: station.knuckles.map(k => ({ ...convertOffset(k), ...(k.type ? { type: k.type } : {}) }))
+            } : {}),
+            ...(station.keel ? { keel: convertKeel(station.keel) } : {})
+        }))
+    };
+}
+
+/** Checks whether text is written in feet-inches-eighths */
+export function isFeetInchesEighths(text: string): boolean {
+    return FEET_INCHES_EIGHTHS.test(text);
+}
+
+/**
+ * Parses a feet-inches-eighths offset into feet
+ * "3-04-5" is 3 ft 4 5/8 in, "3-04-5+" adds a sixteenth; returns null for anything else
+ */
+export function parseFeetInchesEighths(text: string): number | null {
+    const match = text.match(FEET_INCHES_EIGHTHS);
+    if (!match) return null;
+
+    const [, sign, feet, inches, eighths, sixteenth] = match;
+    if (Number(inches) >= 12) return null;
+
+    const totalInches = Number(inches)
+        + Number(eighths) / 8
+        + (sixteenth === '+' ? 1 / 16 : sixteenth === '-' ? -1 / 16 : 0);
+    const value = Number(feet) + totalInches / 12;
+    return sign === '-' ? -value : value;
+}
+
+/**
+ * Prints a length in feet as feet-inches-eighths, e.g. 3.3854 → "3-04-5"
+ * Rounds to the nearest eighth, or to the nearest sixteenth written as a trailing "+" when sixteenths is set
+ */
+export function formatFeetInchesEighths(feet: number, options: { sixteenths?: boolean } = {}): string {
+    const sign = feet < 0 ? '-' : '';
+    const sixteenths = Math.round(Math.abs(feet) * 12 * 16);
+    const eighthsTotal = options.sixteenths ? Math.floor(sixteenths / 2) : Math.round(sixteenths / 2);
+    const plus = options.sixteenths && sixteenths % 2 === 1 ? '+' : '';
+
+    const wholeFeet = Math.floor(eighthsTotal / 96);
+    const inches = Math.floor((eighthsTotal % 96) / 8);
+    const eighths = eighthsTotal % 8;
+    return `${sign}${wholeFeet}-${String(inches).padStart(2, '0')}-${eighths}${plus}`;
+}
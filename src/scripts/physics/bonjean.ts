@@ -0,0 +1,104 @@
+// bonjean.ts
+import * as Types from "../../types";
+import { getSortedStations, getSortedWaterlines } from "../utils/geometry/getters";
+import { interpolateHullGrid } from "../utils/geometry/helpers";
+import { stateManager } from "../state_manager";
+import { getImmersedSections, getWaterplane, integrateAlongLength, integrateMomentAlongLength } from "./hydrostatics";
+
+/**
+ * Gets the table whose stations the curves are evaluated at
+ * Applies interpolateHullGrid when an LOD configuration refines the grid, so every generated station is included
+ */
+function getAnalysisTable(table: Types.QuoteTable, lodConfig?: Types.LODConfig): Types.QuoteTable {
+    if (!lodConfig || (lodConfig.stationMultiplier <= 1 && lodConfig.waterlineMultiplier <= 1)) return table;
+    return interpolateHullGrid(table, lodConfig);
+}
+
+/** Checks whether a station position was added by interpolation rather than given in the table */
+function isInterpolated(table: Types.QuoteTable, position: number): boolean {
+    return !table.stations.some(station => Math.abs(station.position - position) < 1e-6);
+}
+
+/**
+ * Computes the Bonjean curves: immersed area of every station as a function of upright draft
+ * Drafts run from the keel to the top waterline in equal steps, the first point at zero draft
+ * @param table - Offset table describing the hull
+ * @param steps - Number of draft intervals
+ * @param lodConfig - Optional grid refinement, adds the stations interpolateHullGrid generates
+ */
+export function computeBonjeanCurves(
+    table: Types.QuoteTable,
+    steps = 10,
+    lodConfig?: Types.LODConfig
+): Types.BonjeanCurve[] {
+    const analysisTable = getAnalysisTable(table, lodConfig);
+    const waterlines = getSortedWaterlines(analysisTable);
+    const curves: Types.BonjeanCurve[] = getSortedStations(analysisTable).map(station => ({
+        position: station.position,
+        interpolated: isInterpolated(table, station.position),
+        points: []
+    }));
+
+    if (waterlines.length < 2 || steps < 1) {
+        stateManager.Debug && console.warn("Not enough waterlines or steps for Bonjean curves");
+        return curves;
+    }
+
+    const baseline = waterlines[0];
+    const depth = waterlines[waterlines.length - 1] - baseline;
+
+    for (let i = 0; i <= steps; i++) {
+        const draft = depth * i / steps;
+        const sections = getImmersedSections(analysisTable, getWaterplane(analysisTable, draft));
+        sections.forEach((section, j) => {
+            curves[j].points.push({
+                draft,
+                area: section.area,
+                verticalMoment: section.area * (section.centroid.y - baseline)
+            });
+        });
+    }
+
+    stateManager.Debug && console.log(`📊 Computed Bonjean curves for ${curves.length} stations`);
+    return curves;
+}
+
+/**
+ * Computes the sectional area curve: immersed area of every station below a waterplane
+ * @param table - Offset table describing the hull
+ * @param draft - Draft above the lowest waterline at mid-length
+ * @param trim - Trim angle in degrees (positive by the stern)
+ * @param heel - Heel angle in degrees (positive to starboard)
+ * @param lodConfig - Optional grid refinement, adds the stations interpolateHullGrid generates
+ */
+export function computeSectionalAreaCurve(
+    table: Types.QuoteTable,
+    draft: number,
+    trim = 0,
+    heel = 0,
+    lodConfig?: Types.LODConfig
+): Types.SectionalAreaCurve {
+    const analysisTable = getAnalysisTable(table, lodConfig);
+    const sections = getImmersedSections(analysisTable, getWaterplane(analysisTable, draft, trim, heel));
+    const positions = sections.map(s => s.position);
+    const areas = sections.map(s => s.area);
+
+    const volume = integrateAlongLength(positions, areas);
+    const moment = integrateMomentAlongLength(positions, areas, 0, 1);
+    const max = sections.reduce<Types.ImmersedSection | null>((best, s) => (!best || s.area > best.area ? s : best), null);
+
+    return {
+        draft,
+        trim,
+        heel,
+        points: sections.map(s => ({
+            position: s.position,
+            area: s.area,
+            interpolated: isInterpolated(table, s.position)
+        })),
+        volume,
+        centerOfArea: volume > 0 ? moment / volume : 0,
+        maxArea: max ? max.area : 0,
+        positionOfMaxArea: max ? max.position : 0
+    };
+}
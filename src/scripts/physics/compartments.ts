@@ -0,0 +1,204 @@
+// compartments.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { getSortedStations, getUnitScale } from "../utils/geometry/getters";
+import { stateManager } from "../state_manager";
+import { integrateAlongLength, integrateMomentAlongLength } from "./hydrostatics";
+import {
+    clipSectionPolygon,
+    getPolygonAreaAndCentroid,
+    getSectionPolygon,
+    getSectionWaterlineCut,
+    getStationAt,
+    type SectionPoint
+} from "./sections";
+
+/** Density of fresh water in kg/m³, the default tank contents */
+export const FRESH_WATER_DENSITY = 1000;
+
+/** Compartment outline at one position along the hull */
+export interface CompartmentSection {
+    position: number;
+    polygon: SectionPoint[];
+}
+
+/**
+ * Fills in the optional fields of a compartment definition
+ * Fill level defaults to empty and contents to fresh water
+ */
+export function createCompartment(
+    definition: Omit<Types.Compartment, 'fillLevel' | 'liquidDensity'> & Partial<Types.Compartment>
+): Types.Compartment {
+    return {
+        ...definition,
+        startStation: Math.min(definition.startStation, definition.endStation),
+        endStation: Math.max(definition.startStation, definition.endStation),
+        bottom: Math.min(definition.bottom, definition.top),
+        top: Math.max(definition.bottom, definition.top),
+        fillLevel: THREE.MathUtils.clamp(definition.fillLevel ?? 0, 0, 1),
+        liquidDensity: definition.liquidDensity ?? FRESH_WATER_DENSITY
+    };
+}
+
+/**
+ * Cuts the compartment outlines out of the hull sections
+ * Samples the compartment ends and every table station between them
+ * @param liquidHeight - Optional free surface; only the part below it is kept
+ */
+export function getCompartmentSections(
+    table: Types.QuoteTable,
+    compartment: Types.Compartment,
+    liquidHeight?: number
+): CompartmentSection[] {
+    const stations = getSortedStations(table);
+    if (stations.length < 2) return [];
+
+    const start = Math.max(compartment.startStation, stations[0].position);
+    const end = Math.min(compartment.endStation, stations[stations.length - 1].position);
+    if (end <= start) return [];
+
+    const positions = [start, ...stations.map(s => s.position).filter(p => p > start && p < end), end];
+    const top = liquidHeight !== undefined ? Math.min(liquidHeight, compartment.top) : compartment.top;
+
+    return positions.map(position => {
+        const station = getStationAt(stations, position);
+        let polygon = station ? getSectionPolygon(station) : [];
+
+        // Height band, then the side of the centreline
+        polygon = clipSectionPolygon(polygon, { a: 0, b: 1, c: top });
+        polygon = clipSectionPolygon(polygon, { a: 0, b: -1, c: -compartment.bottom });
+        if (compartment.side === 'starboard') polygon = clipSectionPolygon(polygon, { a: -1, b: 0, c: 0 });
+        if (compartment.side === 'port') polygon = clipSectionPolygon(polygon, { a: 1, b: 0, c: 0 });
+
+        return { position, polygon };
+    });
+}
+
+/**
+ * Integrates the compartment volume and centroid up to a liquid height
+ * Returns the volume in table units³ and the centroid in table coordinates
+ */
+export function computeCompartmentCapacity(
+    table: Types.QuoteTable,
+    compartment: Types.Compartment,
+    liquidHeight = compartment.top
+): { volume: number; centroid: THREE.Vector3 } {
+    const sections = getCompartmentSections(table, compartment, liquidHeight).map(section => ({
+        position: section.position,
+        ...getPolygonAreaAndCentroid(section.polygon)
+    }));
+    const positions = sections.map(s => s.position);
+    const areas = sections.map(s => s.area);
+
+    const volume = integrateAlongLength(positions, areas);
+    if (volume <= 0) return { volume: 0, centroid: new THREE.Vector3() };
+
+    return {
+        volume,
+        centroid: new THREE.Vector3(
+            integrateAlongLength(positions, sections.map(s => s.area * s.centroid.x)) / volume,
+            integrateAlongLength(positions, sections.map(s => s.area * s.centroid.y)) / volume,
+            integrateMomentAlongLength(positions, areas, 0, 1) / volume
+        )
+    };
+}
+
+/**
+ * Finds the free-surface height that fills the given fraction of the compartment by bisection
+ * The hull is taken upright, so the free surface is level
+ */
+export function findLiquidHeight(table: Types.QuoteTable, compartment: Types.Compartment, fillLevel: number): number {
+    if (fillLevel <= 0) return compartment.bottom;
+    if (fillLevel >= 1) return compartment.top;
+
+    const target = computeCompartmentCapacity(table, compartment).volume * fillLevel;
+    let low = compartment.bottom;
+    let high = compartment.top;
+    for (let i = 0; i < 50; i++) {
+        const mid = (low + high) / 2;
+        if (computeCompartmentCapacity(table, compartment, mid).volume < target) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Transverse second moment of the free surface about its own centroid
+ * Each station contributes the cut through the compartment outline at the liquid height
+ */
+function computeFreeSurfaceInertia(table: Types.QuoteTable, compartment: Types.Compartment, liquidHeight: number): number {
+    const cuts = getCompartmentSections(table, compartment).map(section => ({
+        position: section.position,
+        ...getSectionWaterlineCut(section.polygon, { a: 0, b: 1, c: liquidHeight })
+    }));
+    const positions = cuts.map(c => c.position);
+    const area = integrateAlongLength(positions, cuts.map(c => c.length));
+    if (area <= 0) return 0;
+
+    const center = integrateAlongLength(positions, cuts.map(c => c.length * c.center.x)) / area;
+    return integrateAlongLength(positions, cuts.map(c => c.inertia + c.length * Math.pow(c.center.x - center, 2)));
+}
+
+/**
+ * Computes capacity, liquid contents, centroids and free-surface moment of a compartment at its fill level
+ * Volumes and centroids are in table units; the liquid mass and free-surface moment use the liquid density
+ */
+export function computeCompartmentProperties(
+    table: Types.QuoteTable,
+    compartment: Types.Compartment
+): Types.CompartmentProperties {
+    const scale = getUnitScale(table.metadata.units);
+    const full = computeCompartmentCapacity(table, compartment);
+    const liquidHeight = findLiquidHeight(table, compartment, compartment.fillLevel);
+    const liquid = computeCompartmentCapacity(table, compartment, liquidHeight);
+
+    // Full and empty tanks have no free surface
+    const slack = compartment.fillLevel > 0 && compartment.fillLevel < 1;
+    const freeSurfaceInertia = slack ? computeFreeSurfaceInertia(table, compartment, liquidHeight) : 0;
+
+    stateManager.Debug && console.log(
+        `🛢️ Compartment ${compartment.name}: ${liquid.volume.toFixed(4)} of ${full.volume.toFixed(4)} filled`
+    );
+
+    return {
+        name: compartment.name,
+        volume: full.volume,
+        liquidVolume: liquid.volume,
+        liquidMass: liquid.volume * Math.pow(scale, 3) * compartment.liquidDensity,
+        liquidHeight,
+        centroid: full.centroid,
+        liquidCentroid: liquid.centroid,
+        freeSurfaceInertia,
+        freeSurfaceMoment: freeSurfaceInertia * Math.pow(scale, 4) * compartment.liquidDensity
+    };
+}
+
+/**
+ * Tabulates contents against sounding from the compartment bottom to its top
+ * @param steps - Number of equal sounding intervals
+ */
+export function computeTankCalibration(
+    table: Types.QuoteTable,
+    compartment: Types.Compartment,
+    steps = 10
+): Types.TankCalibrationRow[] {
+    const scale = getUnitScale(table.metadata.units);
+    const depth = compartment.top - compartment.bottom;
+    const capacity = computeCompartmentCapacity(table, compartment).volume;
+    const rows: Types.TankCalibrationRow[] = [];
+
+    for (let i = 0; i <= Math.max(steps, 1); i++) {
+        const sounding = depth * i / Math.max(steps, 1);
+        const { volume } = computeCompartmentCapacity(table, compartment, compartment.bottom + sounding);
+        rows.push({
+            sounding,
+            volume,
+            mass: volume * Math.pow(scale, 3) * compartment.liquidDensity,
+            fillLevel: capacity > 0 ? volume / capacity : 0
+        });
+    }
+    return rows;
+}
@@ -0,0 +1,146 @@
+// curves_of_form.ts
+import * as Types from "../../types";
+import { getSortedWaterlines, getUnitScale } from "../utils/geometry/getters";
+import { stateManager } from "../state_manager";
+import { computeHydrostatics, SEA_WATER_DENSITY } from "./hydrostatics";
+
+const KG_PER_LONG_TON = 1016.0469;
+const METERS_PER_INCH = 0.0254;
+
+/** Column order, labels and dimensions used for CSV export */
+const COLUMNS: { key: keyof Types.HydrostaticTableRow; label: string; dimension?: 1 | 2 | 3 }[] = [
+    { key: 'draft', label: 'Draft', dimension: 1 },
+    { key: 'volume', label: 'Volume', dimension: 3 },
+    { key: 'displacement', label: 'Displacement (kg)' },
+    { key: 'waterplaneArea', label: 'Waterplane Area', dimension: 2 },
+    { key: 'wettedSurfaceArea', label: 'Wetted Surface', dimension: 2 },
+    { key: 'immersionRate', label: 'TPC (t/cm)' },
+    { key: 'momentToChangeTrim', label: 'MCT 1cm (t.m/cm)' },
+    { key: 'kb', label: 'KB', dimension: 1 },
+    { key: 'bmt', label: 'BMt', dimension: 1 },
+    { key: 'bml', label: 'BMl', dimension: 1 },
+    { key: 'kmt', label: 'KMt', dimension: 1 },
+    { key: 'kml', label: 'KMl', dimension: 1 },
+    { key: 'lcb', label: 'LCB', dimension: 1 },
+    { key: 'lcf', label: 'LCF', dimension: 1 },
+    { key: 'blockCoefficient', label: 'Cb' },
+    { key: 'prismaticCoefficient', label: 'Cp' },
+    { key: 'midshipCoefficient', label: 'Cm' },
+    { key: 'waterplaneCoefficient', label: 'Cwp' },
+];
+
+/** Imperial replacements for the metric rate columns */
+const IMPERIAL_LABELS: Partial<Record<keyof Types.HydrostaticTableRow, string>> = {
+    immersionRate: 'TPI (LT/in)',
+    momentToChangeTrim: 'MCT 1in (LT.ft/in)'
+};
+
+/** Imperial tables report TPI/MCT 1in, metric tables report TPC/MCT 1cm */
+export function getMeasurementSystem(units: Types.QuoteTable['metadata']['units']): Types.MeasurementSystem {
+    return units === 'ft' || units === 'in' ? 'imperial' : 'metric';
+}
+
+/**
+ * Builds one row of the hydrostatic table from upright hydrostatics
+ * Converts waterplane area and displacement into the immersion and trim rates of the table's system
+ */
+function createTableRow(
+    hydro: Types.HydrostaticProperties,
+    baseline: number,
+    scale: number,
+    system: Types.MeasurementSystem,
+    density: number
+): Types.HydrostaticTableRow {
+    const kb = hydro.centerOfBuoyancy.vertical - baseline;
+    const bmt = hydro.metacentricRadius.transverse;
+    const bml = hydro.metacentricRadius.longitudinal;
+    const areaSquareMeters = hydro.waterplaneArea * scale * scale;
+    const trimRatio = hydro.lengthWaterline > 0 ? bml / hydro.lengthWaterline : 0;
+
+    const immersionRate = system === 'metric'
+        ? areaSquareMeters * 0.01 * density / 1000
+        : areaSquareMeters * METERS_PER_INCH * density / KG_PER_LONG_TON;
+    const momentToChangeTrim = system === 'metric'
+        ? (hydro.displacement / 1000) * trimRatio / 100
+        : (hydro.displacement / KG_PER_LONG_TON) * trimRatio / 12;
+
+    return {
+        draft: hydro.draft,
+        volume: hydro.volume,
+        displacement: hydro.displacement,
+        waterplaneArea: hydro.waterplaneArea,
+        wettedSurfaceArea: hydro.wettedSurfaceArea,
+        immersionRate,
+        momentToChangeTrim,
+        kb,
+        bmt,
+        bml,
+        kmt: kb + bmt,
+        kml: kb + bml,
+        lcb: hydro.centerOfBuoyancy.longitudinal,
+        lcf: hydro.centerOfFloatation.longitudinal,
+        blockCoefficient: hydro.blockCoefficient,
+        prismaticCoefficient: hydro.prismaticCoefficient,
+        midshipCoefficient: hydro.midshipCoefficient,
+        waterplaneCoefficient: hydro.waterplaneCoefficient
+    };
+}
+
+/**
+ * Sweeps the upright draft from the keel to the top waterline and tabulates the curves of form
+ * Produces one row per step, the first step above the keel and the last at the top waterline
+ * @param table - Offset table describing the hull
+ * @param steps - Number of drafts to evaluate
+ * @param density - Water density in kg/m³
+ */
+export function computeCurvesOfForm(
+    table: Types.QuoteTable,
+    steps = 10,
+    density = SEA_WATER_DENSITY
+): Types.HydrostaticTable {
+    const units = table.metadata.units;
+    const system = getMeasurementSystem(units);
+    const waterlines = getSortedWaterlines(table);
+    const rows: Types.HydrostaticTableRow[] = [];
+
+    if (waterlines.length < 2 || steps < 1) {
+        stateManager.Debug && console.warn("Not enough waterlines or steps for curves of form");
+        return { units, system, rows };
+    }
+
+    const baseline = waterlines[0];
+    const depth = waterlines[waterlines.length - 1] - baseline;
+    const scale = getUnitScale(units);
+
+    for (let i = 1; i <= steps; i++) {
+        const hydro = computeHydrostatics(table, depth * i / steps, 0, 0, density);
+        rows.push(createTableRow(hydro, baseline, scale, system, density));
+    }
+
+    stateManager.Debug && console.log(`📈 Computed curves of form with ${rows.length} drafts`);
+    return { units, system, rows };
+}
+
+/**
+ * Serializes a hydrostatic table to CSV with a header row
+ * Headers carry the table units and follow its measurement system (TPC/TPI, MCT 1cm/1in)
+ */
+export function hydrostaticTableToCSV(table: Types.HydrostaticTable, separator = ','): string {
+    const header = COLUMNS.map(column => {
+        const label = (table.system === 'imperial' && IMPERIAL_LABELS[column.key]) || column.label;
+        if (!column.dimension) return label;
+        return `${label} (${table.units}${column.dimension > 1 ? `^${column.dimension}` : ''})`;
+    }).join(separator);
+    const lines = table.rows.map(row => COLUMNS.map(column => formatNumber(row[column.key])).join(separator));
+    return [header, ...lines].join('\n');
+}
+
+/** Serializes a hydrostatic table to pretty-printed JSON */
+export function hydrostaticTableToJSON(table: Types.HydrostaticTable): string {
+    return JSON.stringify(table, null, 2);
+}
+
+/** Formats numbers for CSV output without floating point noise */
+function formatNumber(value: number): string {
+    return Number.isFinite(value) ? Number(value.toPrecision(8)).toString() : '';
+}
@@ -0,0 +1,226 @@
+// equilibrium.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { getSortedStations, getSortedWaterlines } from "../utils/geometry/getters";
+import { stateManager } from "../state_manager";
+import { computeHydrostatics, getWaterplane, SEA_WATER_DENSITY } from "./hydrostatics";
+
+const MAX_ITERATIONS = 50;
+const TOLERANCE = 1e-6;
+const MAX_ANGLE_STEP = 5; // degrees per Newton iteration
+
+/** Solver controls for the free-floating equilibrium */
+export interface EquilibriumOptions {
+    density?: number;
+    fixedHeel?: number; // Keep heel at this angle instead of solving for it (degrees)
+    fixedTrim?: number; // Keep trim at this angle instead of solving for it (degrees)
+}
+
+/**
+ * Finds the draft whose displacement matches the given mass at a fixed trim and heel by bisection
+ * Returns the upper end of the search bracket when the hull cannot carry the mass
+ */
+export function findDraftForDisplacement(
+    table: Types.QuoteTable,
+    mass: number,
+    trim = 0,
+    heel = 0,
+    density = SEA_WATER_DENSITY
+): number {
+    const waterlines = getSortedWaterlines(table);
+    if (waterlines.length < 2) return 0;
+
+    // Allow the bracket to extend below the keel and above the deck when heeled or trimmed
+    const depth = waterlines[waterlines.length - 1] - waterlines[0];
+    const stations = getSortedStations(table);
+    const length = stations.length > 1 ? stations[stations.length - 1].position - stations[0].position : 0;
+    const reach = depth + length * Math.abs(Math.sin(THREE.MathUtils.degToRad(trim)));
+
+    let low = -reach;
+    let high = depth + reach;
+    for (let i = 0; i < 60; i++) {
+        const mid = (low + high) / 2;
+        if (computeHydrostatics(table, mid, trim, heel, density).displacement < mass) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+    return (low + high) / 2;
+}
+
+/**
+ * Gets the water's horizontal axes seen from the hull for a given water "up" direction
+ * Longitudinal follows the hull length, transverse points to starboard when upright
+ */
+export function getHorizontalAxes(up: THREE.Vector3): { longitudinal: THREE.Vector3; transverse: THREE.Vector3 } {
+    const longitudinal = new THREE.Vector3(0, 0, 1).addScaledVector(up, -up.z).normalize();
+    const transverse = new THREE.Vector3().crossVectors(up, longitudinal).normalize();
+    return { longitudinal, transverse };
+}
+
+/**
+ * Residuals of the floating equilibrium: displacement error and horizontal offsets between B and G
+ * Offsets are measured along the water's longitudinal and transverse axes, seen from the hull
+ */
+function getResiduals(
+    table: Types.QuoteTable,
+    mass: number,
+    centerOfGravity: THREE.Vector3,
+    attitude: THREE.Vector3,
+    density: number
+): { residuals: number[]; hydrostatics: Types.HydrostaticProperties } {
+    const [draft, trim, heel] = attitude.toArray();
+    const hydrostatics = computeHydrostatics(table, draft, trim, heel, density);
+    const up = getWaterplane(table, draft, trim, heel).normal;
+
+    const axes = getHorizontalAxes(up);
+
+    const { longitudinal, vertical, transverse } = hydrostatics.centerOfBuoyancy;
+    const gravityToBuoyancy = new THREE.Vector3(transverse, vertical, longitudinal).sub(centerOfGravity);
+    const length = Math.max(hydrostatics.lengthOverall, 1e-9);
+    const beam = Math.max(hydrostatics.beamOverall, 1e-9);
+
+    return {
+        residuals: [
+            hydrostatics.displacement / mass - 1,
+            gravityToBuoyancy.dot(axes.longitudinal) / length,
+            gravityToBuoyancy.dot(axes.transverse) / beam
+        ],
+        hydrostatics
+    };
+}
+
+/** Solves a small dense linear system with partial pivoting, returns null when singular */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+    const n = rhs.length;
+    const a = matrix.map((row, i) => [...row, rhs[i]]);
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-12) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+        x[row] = sum / a[row][row];
+    }
+    return x;
+}
+
+/**
+ * Finds the draft, trim and heel where buoyancy balances the weight and B lies vertically above G
+ * Newton iteration on (draft, trim, heel) with a finite-difference Jacobian, starting upright
+ * @param table - Offset table describing the hull
+ * @param mass - Total mass in kg
+ * @param centerOfGravity - Centre of gravity in table coordinates (x transverse, y vertical, z longitudinal)
+ */
+export function solveEquilibrium(
+    table: Types.QuoteTable,
+    mass: number,
+    centerOfGravity: THREE.Vector3,
+    options: EquilibriumOptions = {}
+): Types.EquilibriumResult {
+    const density = options.density ?? SEA_WATER_DENSITY;
+    const solveTrim = options.fixedTrim === undefined;
+    const solveHeel = options.fixedHeel === undefined;
+
+    const waterlines = getSortedWaterlines(table);
+    const depth = waterlines.length > 1 ? waterlines[waterlines.length - 1] - waterlines[0] : 1;
+
+    const trim = options.fixedTrim ?? 0;
+    const heel = options.fixedHeel ?? 0;
+    const attitude = new THREE.Vector3(findDraftForDisplacement(table, mass, trim, heel, density), trim, heel);
+    let { residuals, hydrostatics } = getResiduals(table, mass, centerOfGravity, attitude, density);
+
+    let iterations = 0;
+    let converged = false;
+
+    while (iterations < MAX_ITERATIONS) {
+        const active = [0, 1, 2].filter(i => i === 0 || (i === 1 && solveTrim) || (i === 2 && solveHeel));
+        if (active.every(i => Math.abs(residuals[i]) < TOLERANCE)) {
+            converged = true;
+            break;
+        }
+        iterations++;
+
+        // Finite-difference Jacobian over the unknowns being solved for
+        const steps = [depth * 1e-4, 1e-3, 1e-3];
+        const jacobian = active.map(() => new Array(active.length).fill(0));
+        active.forEach((unknown, col) => {
+            const probe = attitude.clone();
+            probe.setComponent(unknown, probe.getComponent(unknown) + steps[unknown]);
+            const probed = getResiduals(table, mass, centerOfGravity, probe, density).residuals;
+            active.forEach((equation, row) => {
+                jacobian[row][col] = (probed[equation] - residuals[equation]) / steps[unknown];
+            });
+        });
+
+        const delta = solveLinearSystem(jacobian, active.map(i => -residuals[i]));
+        if (!delta) break;
+
+        // Damp angle updates so large corrections do not overshoot past the deck edge
+        active.forEach((unknown, k) => {
+            const change = unknown === 0
+                ? THREE.MathUtils.clamp(delta[k], -depth / 2, depth / 2)
+                : THREE.MathUtils.clamp(delta[k], -MAX_ANGLE_STEP, MAX_ANGLE_STEP);
+            attitude.setComponent(unknown, attitude.getComponent(unknown) + change);
+        });
+
+        ({ residuals, hydrostatics } = getResiduals(table, mass, centerOfGravity, attitude, density));
+    }
+
+    stateManager.Debug && console.log(
+        `⚓ Equilibrium ${converged ? 'found' : 'not found'} after ${iterations} iterations:`,
+        `draft ${attitude.x.toFixed(4)}, trim ${attitude.y.toFixed(3)}°, heel ${attitude.z.toFixed(3)}°`
+    );
+
+    const { longitudinal, vertical, transverse } = hydrostatics.centerOfBuoyancy;
+    return {
+        draft: attitude.x,
+        trim: attitude.y,
+        heel: attitude.z,
+        mass,
+        centerOfGravity: centerOfGravity.clone(),
+        centerOfBuoyancy: new THREE.Vector3(transverse, vertical, longitudinal),
+        hydrostatics,
+        converged,
+        iterations
+    };
+}
+
+/**
+ * Builds the transform that places the hull at a floating attitude
+ * Maps table coordinates scaled by unitScale into world space with the waterplane at waterLevel
+ */
+export function getFloatingTransform(
+    table: Types.QuoteTable,
+    attitude: { draft: number; trim: number; heel: number },
+    unitScale: number,
+    waterLevel = 0
+): THREE.Matrix4 {
+    const plane = getWaterplane(table, attitude.draft, attitude.trim, attitude.heel);
+    const rotation = new THREE.Matrix4()
+        .makeRotationZ(-THREE.MathUtils.degToRad(attitude.heel))
+        .multiply(new THREE.Matrix4().makeRotationX(THREE.MathUtils.degToRad(attitude.trim)));
+
+    // Reference point on the waterplane (centreline, mid-length) lands on the water surface at the origin
+    const stations = getSortedStations(table);
+    const midLength = stations.length > 0 ? (stations[0].position + stations[stations.length - 1].position) / 2 : 0;
+    const reference = new THREE.Vector3(0, 0, midLength);
+    plane.projectPoint(reference, reference);
+    reference.multiplyScalar(unitScale).applyMatrix4(rotation);
+
+    return rotation.setPosition(-reference.x, waterLevel - reference.y, -reference.z);
+}
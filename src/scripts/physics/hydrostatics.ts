@@ -0,0 +1,281 @@
+// hydrostatics.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { getSortedStations, getSortedWaterlines, getUnitScale } from "../utils/geometry/getters";
+import { getKeelSamples } from "../utils/geometry/generators/keel";
+import { stateManager } from "../state_manager";
+import {
+    clipSectionPolygon,
+    getImmersedGirth,
+    getKeelSectionPolygon,
+    getPolygonAreaAndCentroid,
+    getSectionPolygon,
+    getSectionWaterline,
+    getSectionWaterlineCut,
+    getStationAt,
+    type SectionPoint
+} from "./sections";
+
+/** Density of sea water in kg/m³ */
+export const SEA_WATER_DENSITY = 1025;
+
+/** Gravitational acceleration in m/s² */
+export const GRAVITY = 9.81;
+
+/**
+ * Integrates sampled values along the hull length with the trapezoidal rule
+ * Positions must be sorted and match the values one to one
+ */
+export function integrateAlongLength(positions: number[], values: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < positions.length - 1; i++) {
+        sum += (values[i] + values[i + 1]) / 2 * (positions[i + 1] - positions[i]);
+    }
+    return sum;
+}
+
+/**
+ * Integrates value × (position - origin)^power along the hull length
+ * Values are taken as linear between stations, so moments of tapered ends stay exact
+ */
+export function integrateMomentAlongLength(positions: number[], values: number[], origin: number, power: number): number {
+    let sum = 0;
+    for (let i = 0; i < positions.length - 1; i++) {
+        const u0 = positions[i] - origin;
+        const u1 = positions[i + 1] - origin;
+        if (u1 === u0) continue;
+
+        const slope = (values[i + 1] - values[i]) / (u1 - u0);
+        sum += (values[i] - slope * u0) * (Math.pow(u1, power + 1) - Math.pow(u0, power + 1)) / (power + 1)
+            + slope * (Math.pow(u1, power + 2) - Math.pow(u0, power + 2)) / (power + 2);
+    }
+    return sum;
+}
+
+/**
+ * Builds the waterplane in table coordinates for a floating attitude
+ * Draft is measured from the lowest offset at mid-length, trim and heel are in degrees
+ */
+export function getWaterplane(table: Types.QuoteTable, draft: number, trim = 0, heel = 0): THREE.Plane {
+    const stations = getSortedStations(table);
+    const waterlines = getSortedWaterlines(table);
+    const baseline = waterlines.length > 0 ? waterlines[0] : 0;
+    const midLength = stations.length > 0
+        ? (stations[0].position + stations[stations.length - 1].position) / 2
+        : 0;
+
+    // Water "up" direction seen from the hull: heel about the length, then trim about the beam
+    const phi = THREE.MathUtils.degToRad(heel);
+    const theta = THREE.MathUtils.degToRad(trim);
+    const normal = new THREE.Vector3(
+        -Math.sin(phi),
+        Math.cos(phi) * Math.cos(theta),
+        -Math.cos(phi) * Math.sin(theta)
+    );
+
+    return new THREE.Plane().setFromNormalAndCoplanarPoint(normal, new THREE.Vector3(0, baseline + draft, midLength));
+}
+
+/**
+ * Cuts every station of the table with the waterplane
+ * Returns the immersed area, centroid, girth and waterline cut of each station, sorted by position
+ */
+export function getImmersedSections(table: Types.QuoteTable, plane: THREE.Plane): Types.ImmersedSection[] {
+    return getSortedStations(table).map(station => {
+        const section: Types.ImmersedSection = {
+            position: station.position,
+            area: 0,
+            centroid: { x: 0, y: 0 },
+            girth: 0,
+            waterlineBreadth: 0,
+            waterlineCenter: { x: 0, y: 0 },
+            waterlineInertia: 0
+        };
+
+        const line = getSectionWaterline(plane, station.position);
+        const polygon = getSectionPolygon(station);
+        if (!line || polygon.length < 3) return section;
+
+        const { area, centroid } = getPolygonAreaAndCentroid(clipSectionPolygon(polygon, line));
+        const cut = getSectionWaterlineCut(polygon, line);
+
+        section.area = area;
+        section.centroid = centroid;
+        section.girth = getImmersedGirth(polygon, line);
+        section.waterlineBreadth = cut.length;
+        section.waterlineCenter = cut.center;
+        section.waterlineInertia = cut.inertia;
+        return section;
+    });
+}
+
+/**
+ * Gets the outline of the keel bar at every keel sample, below the station outline there
+ * Rake is left out: it sweeps the bar aft without changing its sections, so only the bar's centre moves slightly
+ */
+function getKeelSections(table: Types.QuoteTable): { position: number; polygon: SectionPoint[] }[] {
+    const samples = getKeelSamples(table);
+    if (samples.length < 2) return [];
+
+    const stations = getSortedStations(table).filter(station => station.waterlines.length > 0);
+    const baseline = getSortedWaterlines(table)[0];
+    return samples.map(sample => ({
+        position: sample.position,
+        polygon: getKeelSectionPolygon(getStationAt(stations, sample.position)!, sample.width / 2, baseline - sample.depth)
+    }));
+}
+
+/**
+ * Cuts the keel bar with the waterplane at every keel sample, sorted by position
+ * Returns the immersed area and centroid of each bar section; it adds to the station sections without overlap
+ */
+export function getImmersedKeelSections(
+    table: Types.QuoteTable,
+    plane: THREE.Plane
+): Pick<Types.ImmersedSection, 'position' | 'area' | 'centroid'>[] {
+    return getKeelSections(table).map(({ position, polygon }) => {
+        const line = getSectionWaterline(plane, position);
+        const { area, centroid } = line
+            ? getPolygonAreaAndCentroid(clipSectionPolygon(polygon, line))
+            : { area: 0, centroid: { x: 0, y: 0 } };
+        return { position, area, centroid };
+    });
+}
+
+/**
+ * Computes the volume and centroid of the whole keel bar in table units
+ * Zero volume when the table has no keel
+ */
+export function computeKeelVolume(table: Types.QuoteTable): { volume: number; centroid: THREE.Vector3 } {
+    const sections = getKeelSections(table).map(({ position, polygon }) => ({ position, ...getPolygonAreaAndCentroid(polygon) }));
+    const positions = sections.map(s => s.position);
+    const areas = sections.map(s => s.area);
+
+    const volume = integrateAlongLength(positions, areas);
+    if (volume <= 0) return { volume: 0, centroid: new THREE.Vector3() };
+
+    return {
+        volume,
+        centroid: new THREE.Vector3(
+            integrateAlongLength(positions, sections.map(s => s.area * s.centroid.x)) / volume,
+            integrateAlongLength(positions, sections.map(s => s.area * s.centroid.y)) / volume,
+            integrateMomentAlongLength(positions, areas, 0, 1) / volume
+        )
+    };
+}
+
+/**
+ * Computes hydrostatic properties of the hull below a waterplane directly from the offsets
+ * Lengths, areas and volumes are in table units; displacement is in kg like Physics weights
+ * @param table - Offset table describing the hull
+ * @param draft - Draft above the lowest waterline at mid-length
+ * @param trim - Trim angle in degrees (positive by the stern)
+ * @param heel - Heel angle in degrees (positive to starboard)
+ * @param density - Water density in kg/m³
+ */
+export function computeHydrostatics(
+    table: Types.QuoteTable,
+    draft: number,
+    trim = 0,
+    heel = 0,
+    density = SEA_WATER_DENSITY
+): Types.HydrostaticProperties {
+    const plane = getWaterplane(table, draft, trim, heel);
+    const sections = getImmersedSections(table, plane);
+    const positions = sections.map(s => s.position);
+    const integrate = (values: number[]) => integrateAlongLength(positions, values);
+    const ratio = (numerator: number, denominator: number) => denominator > 0 ? numerator / denominator : 0;
+
+    // Volume and centre of buoyancy, with the immersed part of a keel bar added to the hull's
+    const keel = getImmersedKeelSections(table, plane);
+    const keelPositions = keel.map(s => s.position);
+    const integrateKeel = (values: number[]) => integrateAlongLength(keelPositions, values);
+    const volume = integrate(sections.map(s => s.area)) + integrateKeel(keel.map(s => s.area));
+    const momentZ = integrateMomentAlongLength(positions, sections.map(s => s.area), 0, 1)
+        + integrateMomentAlongLength(keelPositions, keel.map(s => s.area), 0, 1);
+    const momentY = integrate(sections.map(s => s.area * s.centroid.y)) + integrateKeel(keel.map(s => s.area * s.centroid.y));
+    const momentX = integrate(sections.map(s => s.area * s.centroid.x)) + integrateKeel(keel.map(s => s.area * s.centroid.x));
+
+    // Waterplane area and centre of flotation (strips are widened by the waterplane slope)
+    const slopeFactor = 1 / Math.max(Math.hypot(plane.normal.x, plane.normal.y), 1e-9);
+    const breadthIntegral = integrate(sections.map(s => s.waterlineBreadth));
+    const waterplaneArea = breadthIntegral * slopeFactor;
+    const flotationZ = integrateMomentAlongLength(positions, sections.map(s => s.waterlineBreadth), 0, 1);
+    const flotationX = integrate(sections.map(s => s.waterlineBreadth * s.waterlineCenter.x));
+    const centerOfFloatationZ = ratio(flotationZ, breadthIntegral);
+
+    // Second moments of the waterplane about the centre of flotation, measured along the waterline trace
+    const a = plane.normal.x * slopeFactor;
+    const b = plane.normal.y * slopeFactor;
+    const traceOffsets = sections.map(s => b * s.waterlineCenter.x - a * s.waterlineCenter.y);
+    const flotationOffset = ratio(integrate(sections.map((s, i) => s.waterlineBreadth * traceOffsets[i])), breadthIntegral);
+    const transverseInertia = integrate(sections.map((s, i) =>
+        s.waterlineInertia + s.waterlineBreadth * Math.pow(traceOffsets[i] - flotationOffset, 2)
+    )) * slopeFactor;
+    // Along the inclined plane both the strip length and the lever arm grow by the slope factor
+    const longitudinalInertia = integrateMomentAlongLength(
+        positions, sections.map(s => s.waterlineBreadth), centerOfFloatationZ, 2
+    ) * Math.pow(slopeFactor, 3);
+
+    // Wetted surface: girth along the length plus immersed bow and transom faces
+    const endFaces = sections.length > 0 ? sections[0].area + sections[sections.length - 1].area : 0;
+    const wettedSurfaceArea = integrate(sections.map(s => s.girth)) + endFaces;
+
+    // Waterline length spans every interval touched by a non-zero waterline breadth
+    let lwlStart = Infinity;
+    let lwlEnd = -Infinity;
+    for (let i = 0; i < sections.length - 1; i++) {
+        if (sections[i].waterlineBreadth > 0 || sections[i + 1].waterlineBreadth > 0) {
+            lwlStart = Math.min(lwlStart, sections[i].position);
+            lwlEnd = Math.max(lwlEnd, sections[i + 1].position);
+        }
+    }
+    const lengthWaterline = lwlEnd > lwlStart ? lwlEnd - lwlStart : 0;
+    const beamWaterline = sections.reduce((max, s) => Math.max(max, s.waterlineBreadth), 0);
+    const maxSectionArea = sections.reduce((max, s) => Math.max(max, s.area), 0);
+
+    const lengthOverall = positions.length > 0 ? positions[positions.length - 1] - positions[0] : 0;
+    const beamOverall = table.stations.reduce((max, station) => Math.max(max, ...station.waterlines.map(wl =>
+        wl.halfBreadthPort + (wl.halfBreadthStarboard !== undefined ? wl.halfBreadthStarboard : wl.halfBreadthPort)
+    )), 0);
+
+    const scale = getUnitScale(table.metadata.units);
+
+    stateManager.Debug && console.log(`🌊 Hydrostatics at draft ${draft}: volume ${volume.toFixed(4)}, waterplane ${waterplaneArea.toFixed(4)}`);
+
+    return {
+        volume,
+        displacement: volume * Math.pow(scale, 3) * density,
+        centerOfBuoyancy: {
+            longitudinal: ratio(momentZ, volume),
+            vertical: ratio(momentY, volume),
+            transverse: ratio(momentX, volume)
+        },
+        wettedSurfaceArea,
+        waterplaneArea,
+        waterplaneInertia: {
+            transverse: transverseInertia,
+            longitudinal: longitudinalInertia
+        },
+        metacentricRadius: {
+            transverse: ratio(transverseInertia, volume),
+            longitudinal: ratio(longitudinalInertia, volume)
+        },
+        centerOfFloatation: {
+            longitudinal: centerOfFloatationZ,
+            transverse: ratio(flotationX, breadthIntegral)
+        },
+        blockCoefficient: ratio(volume, lengthWaterline * beamWaterline * draft),
+        prismaticCoefficient: ratio(volume, maxSectionArea * lengthWaterline),
+        midshipCoefficient: ratio(maxSectionArea, beamWaterline * draft),
+        waterplaneCoefficient: ratio(breadthIntegral, lengthWaterline * beamWaterline),
+        maxSectionArea,
+        lengthOverall,
+        beamOverall,
+        lengthWaterline,
+        beamWaterline,
+        draft,
+        trim,
+        heel
+    };
+}
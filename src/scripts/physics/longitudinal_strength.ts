@@ -0,0 +1,128 @@
+// longitudinal_strength.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { getUnitScale } from "../utils/geometry/getters";
+import { stateManager } from "../state_manager";
+import { getImmersedKeelSections, getImmersedSections, getWaterplane, GRAVITY, SEA_WATER_DENSITY } from "./hydrostatics";
+
+/** Resolution and water controls for the still-water strength calculation */
+export interface StrengthOptions {
+    segments?: number; // Number of equal intervals along the length, default 100
+    density?: number;
+}
+
+/**
+ * Integrates a piecewise-linear curve between two positions
+ * Breakpoints inside the range are honoured, values outside the sampled range count as zero
+ */
+function integrateRange(positions: number[], values: number[], start: number, end: number): number {
+    let sum = 0;
+    for (let i = 0; i < positions.length - 1; i++) {
+        const z0 = positions[i];
+        const z1 = positions[i + 1];
+        const a = Math.max(z0, start);
+        const b = Math.min(z1, end);
+        if (b <= a || z1 === z0) continue;
+
+        const valueAt = (z: number) => values[i] + (values[i + 1] - values[i]) * (z - z0) / (z1 - z0);
+        sum += (valueAt(a) + valueAt(b)) / 2 * (b - a);
+    }
+    return sum;
+}
+
+/**
+ * Computes the still-water load, shear force and bending moment curves along the hull
+ * Buoyancy follows the immersed section areas below the waterplane; each weight loads the interval it falls in
+ * @param table - Offset table describing the hull
+ * @param weights - Point masses in kg with positions in table coordinates (z longitudinal)
+ * @param attitude - Draft, trim and heel of the waterplane, usually the solved equilibrium
+ */
+export function computeLongitudinalStrength(
+    table: Types.QuoteTable,
+    weights: Types.Weight[],
+    attitude: { draft: number; trim: number; heel: number },
+    options: StrengthOptions = {}
+): Types.LongitudinalStrength {
+    const segments = Math.max(Math.round(options.segments ?? 100), 1);
+    const density = options.density ?? SEA_WATER_DENSITY;
+    const scale = getUnitScale(table.metadata.units);
+
+    const plane = getWaterplane(table, attitude.draft, attitude.trim, attitude.heel);
+    const sections = getImmersedSections(table, plane);
+    const positions = sections.map(s => s.position);
+    const areas = sections.map(s => s.area);
+    const keel = getImmersedKeelSections(table, plane);
+
+    const start = positions.length > 0 ? positions[0] : 0;
+    const end = positions.length > 0 ? positions[positions.length - 1] : 0;
+    const step = (end - start) / segments;
+    const edges = Array.from({ length: segments + 1 }, (_, i) => start + step * i);
+
+    // Forces acting on each interval in N
+    const weightForces = new Array(segments).fill(0);
+    const buoyancyForces = edges.slice(0, -1).map((z, i) => (
+        integrateRange(positions, areas, z, edges[i + 1])
+        + integrateRange(keel.map(s => s.position), keel.map(s => s.area), z, edges[i + 1])
+    ) * Math.pow(scale, 3) * density * GRAVITY);
+
+    // Moment of each interval's weights about its far end, so point loads keep their exact lever arm
+    const weightMoments = new Array(segments).fill(0);
+    weights.forEach(w => {
+        const index = Math.min(Math.max(step > 0 ? Math.floor((w.position.z - start) / step) : 0, 0), segments - 1);
+        const arm = THREE.MathUtils.clamp(edges[index + 1] - w.position.z, 0, step) * scale;
+        weightForces[index] += w.magnitude * GRAVITY;
+        weightMoments[index] += w.magnitude * GRAVITY * arm;
+    });
+
+    // Shear is the running sum of the net load, moment the running integral of shear
+    const stepMeters = step * scale;
+    const shear = [0];
+    const moment = [0];
+    for (let i = 0; i < segments; i++) {
+        shear.push(shear[i] + buoyancyForces[i] - weightForces[i]);
+        moment.push(moment[i] + shear[i] * stepMeters + buoyancyForces[i] * stepMeters / 2 - weightMoments[i]);
+    }
+
+    // Per-metre intensities at the edges average the neighbouring intervals
+    const intensity = (forces: number[], i: number) => {
+        const adjacent = [forces[i - 1], forces[i]].filter(f => f !== undefined);
+        return stepMeters > 0 ? adjacent.reduce((sum, f) => sum + f, 0) / adjacent.length / stepMeters : 0;
+    };
+
+    const points: Types.StrengthPoint[] = edges.map((position, i) => {
+        const weight = intensity(weightForces, i);
+        const buoyancy = intensity(buoyancyForces, i);
+        return {
+            position,
+            weight,
+            buoyancy,
+            load: buoyancy - weight,
+            shearForce: shear[i],
+            bendingMoment: moment[i]
+        };
+    });
+
+    const largest = (key: 'shearForce' | 'bendingMoment') =>
+        points.reduce((max, p) => (Math.abs(p[key]) > Math.abs(max[key]) ? p : max), points[0]);
+    const maxShear = largest('shearForce');
+    const maxMoment = largest('bendingMoment');
+
+    stateManager.Debug && console.log(
+        `🏗️ Longitudinal strength: max shear ${maxShear.shearForce.toFixed(1)} N, max moment ${maxMoment.bendingMoment.toFixed(1)} N·m`
+    );
+
+    return {
+        points,
+        maxShearForce: maxShear.shearForce,
+        positionOfMaxShear: maxShear.position,
+        maxBendingMoment: maxMoment.bendingMoment,
+        positionOfMaxBendingMoment: maxMoment.position,
+        totalWeight: weightForces.reduce((sum, f) => sum + f, 0),
+        totalBuoyancy: buoyancyForces.reduce((sum, f) => sum + f, 0),
+        residualShear: shear[segments],
+        residualMoment: moment[segments],
+        draft: attitude.draft,
+        trim: attitude.trim,
+        heel: attitude.heel
+    };
+}
@@ -0,0 +1,106 @@
+// mass_properties.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+
+/** Triangle of a shell mesh reduced to its centroid and area */
+export interface ShellFace {
+    center: THREE.Vector3;
+    area: number;
+}
+
+/**
+ * Collects the triangles of shell meshes as centroid/area pairs
+ * Positions stay in each mesh's local coordinates (the hull container's frame for hull parts)
+ */
+export function getShellFaces(meshes: THREE.Mesh[]): ShellFace[] {
+    const faces: ShellFace[] = [];
+    const a = new THREE.Vector3();
+    const b = new THREE.Vector3();
+    const c = new THREE.Vector3();
+    const triangle = new THREE.Triangle();
+
+    meshes.forEach(mesh => {
+        const position = mesh.geometry.attributes.position;
+        const index = mesh.geometry.index;
+        if (!position) return;
+
+        const count = index ? index.count : position.count;
+        for (let i = 0; i + 2 < count; i += 3) {
+            const i0 = index ? index.getX(i) : i;
+            const i1 = index ? index.getX(i + 1) : i + 1;
+            const i2 = index ? index.getX(i + 2) : i + 2;
+
+            a.fromBufferAttribute(position, i0);
+            b.fromBufferAttribute(position, i1);
+            c.fromBufferAttribute(position, i2);
+            triangle.set(a, b, c);
+
+            const area = triangle.getArea();
+            if (area > 0) {
+                faces.push({ center: triangle.getMidpoint(new THREE.Vector3()), area });
+            }
+        }
+    });
+
+    return faces;
+}
+
+/**
+ * Calculates total mass, centre of gravity, inertia and radii of gyration of point masses
+ * Positions are read as (x transverse, y vertical, z longitudinal); inertia is about the centre of gravity
+ * @param weights - Point masses with magnitudes in kg
+ * @param shellMass - Portion of the total coming from the shell, reported as-is
+ * @param shellArea - Shell surface area, reported as-is
+ */
+export function computeMassProperties(weights: Types.Weight[], shellMass = 0, shellArea = 0): Types.MassProperties {
+    const mass = weights.reduce((sum, w) => sum + w.magnitude, 0);
+    const center = new THREE.Vector3();
+    if (mass > 0) {
+        weights.forEach(w => center.addScaledVector(w.position, w.magnitude));
+        center.divideScalar(mass);
+    }
+
+    let ixx = 0, iyy = 0, izz = 0, ixy = 0, iyz = 0, ixz = 0;
+    weights.forEach(w => {
+        const x = w.position.x - center.x;
+        const y = w.position.y - center.y;
+        const z = w.position.z - center.z;
+        const m = w.magnitude;
+
+        ixx += m * (y * y + z * z);
+        iyy += m * (x * x + z * z);
+        izz += m * (x * x + y * y);
+        ixy += m * x * y;
+        iyz += m * y * z;
+        ixz += m * x * z;
+    });
+
+    const radius = (inertia: number) => mass > 0 ? Math.sqrt(inertia / mass) : 0;
+
+    // Naval axes: roll about the length (z), pitch about the beam (x), yaw about the vertical (y)
+    return {
+        mass,
+        shellMass,
+        shellArea,
+        centerOfGravity: {
+            longitudinal: center.z,
+            vertical: center.y,
+            transverse: center.x
+        },
+        momentsOfInertia: {
+            roll: izz,
+            pitch: ixx,
+            yaw: iyy
+        },
+        productsOfInertia: {
+            transverseVertical: ixy,
+            verticalLongitudinal: iyz,
+            transverseLongitudinal: ixz
+        },
+        radiiOfGyration: {
+            roll: radius(izz),
+            pitch: radius(ixx),
+            yaw: radius(iyy)
+        }
+    };
+}
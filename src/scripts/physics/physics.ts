@@ -1,5 +1,5 @@
 // physics.ts
-import type { Weight } from "../../types";
+import type { LoadingCondition, Weight } from "../../types";
 import * as THREE from 'three';
 import { stateManager } from "../state_manager";
 
@@ -10,11 +10,19 @@ import { stateManager } from "../state_manager";
 export default class Physics {
     thickness: number = 0;
     weight: number = 0;
+    materialDensity: number | null = null; // kg/m³, null spreads the metadata weight over the shell
     customWeights: Weight[] = [];
     
     // Store paint-distributed weights separately from custom weights
     private paintedWeights: Weight[] = [];
 
+    // Liquid contents of compartments, one weight per compartment
+    private tankWeights: Weight[] = [];
+
+    // Stored loading conditions; the active one lives in customWeights/paintedWeights while selected
+    private loadingConditions: LoadingCondition[] = [{ name: 'default', customWeights: [], paintedWeights: [], fillLevels: {} }];
+    private activeLoadingCondition = 'default';
+
     /**
      * Adds custom weight objects to the physics system
      * @param weights - One or more Weight objects to add
@@ -53,14 +61,148 @@ export default class Physics {
     }
 
     /**
-     * Calculates total weight including base weight, custom weights, and painted weights
+     * Adds a named loading condition, replacing a stored condition with the same name
+     * Weight lists are copied; a condition without items is a lightship condition
+     * @param condition - Name plus optional weights and compartment fill levels
+     */
+    addLoadingCondition(condition: Pick<LoadingCondition, 'name'> & Partial<LoadingCondition>): void {
+        const stored: LoadingCondition = {
+            name: condition.name,
+            customWeights: [...(condition.customWeights ?? [])],
+            paintedWeights: [...(condition.paintedWeights ?? [])],
+            fillLevels: { ...(condition.fillLevels ?? {}) }
+        };
+        this.loadingConditions = [...this.loadingConditions.filter(c => c.name !== stored.name), stored];
+        if (stored.name === this.activeLoadingCondition) this.loadCondition(stored);
+        stateManager.Debug && console.log(`📋 Stored loading condition ${stored.name}`);
+    }
+
+    /**
+     * Removes a loading condition; the active condition cannot be removed
+     * @returns True if a condition was removed
+     */
+    removeLoadingCondition(name: string): boolean {
+        if (name === this.activeLoadingCondition) {
+            stateManager.Debug && console.warn(`Cannot remove the active loading condition ${name}`);
+            return false;
+        }
+        const count = this.loadingConditions.length;
+        this.loadingConditions = this.loadingConditions.filter(c => c.name !== name);
+        return this.loadingConditions.length < count;
+    }
+
+    /**
+     * Switches to another loading condition, storing the current weights and fill levels under the active one
+     * @returns False when no condition has that name
+     */
+    setLoadingCondition(name: string): boolean {
+        const target = this.loadingConditions.find(c => c.name === name);
+        if (!target) {
+            stateManager.Debug && console.warn(`Loading condition ${name} not found`);
+            return false;
+        }
+        this.storeActiveCondition();
+        this.activeLoadingCondition = name;
+        this.loadCondition(target);
+        stateManager.Debug && console.log(`📋 Switched to loading condition ${name}`);
+        return true;
+    }
+
+    /** Gets the name of the active loading condition */
+    getActiveLoadingCondition(): string {
+        return this.activeLoadingCondition;
+    }
+
+    /** Gets the names of all loading conditions in the order they were added */
+    getLoadingConditionNames(): string[] {
+        return this.loadingConditions.map(c => c.name);
+    }
+
+    /**
+     * Gets a copy of a loading condition, with the current weights for the active one
+     * @returns Null when no condition has that name
+     */
+    getLoadingCondition(name: string): LoadingCondition | null {
+        if (name === this.activeLoadingCondition) this.storeActiveCondition();
+        const condition = this.loadingConditions.find(c => c.name === name);
+        if (!condition) return null;
+        return {
+            name: condition.name,
+            customWeights: [...condition.customWeights],
+            paintedWeights: [...condition.paintedWeights],
+            fillLevels: { ...condition.fillLevels }
+        };
+    }
+
+    /** Copies the working weights and fill levels back into the active condition */
+    private storeActiveCondition(): void {
+        const active = this.loadingConditions.find(c => c.name === this.activeLoadingCondition);
+        if (!active) return;
+        active.customWeights = [...this.customWeights];
+        active.paintedWeights = [...this.paintedWeights];
+        active.fillLevels = this.getFillLevels();
+    }
+
+    /** Makes a condition's weights and fill levels the working set */
+    private loadCondition(condition: LoadingCondition): void {
+        this.customWeights = [...condition.customWeights];
+        this.paintedWeights = [...condition.paintedWeights];
+        this.applyFillLevels(condition.fillLevels);
+    }
+
+    /** Gets compartment fill levels by name; overridden where compartments exist */
+    protected getFillLevels(): Record<string, number> {
+        return {};
+    }
+
+    /** Applies compartment fill levels by name; overridden where compartments exist */
+    protected applyFillLevels(_fillLevels: Record<string, number>): void {}
+
+    /**
+     * Sets the liquid weights of compartments, replacing the previous ones
+     * @param weights - Array of Weight objects at the liquid centroids
+     */
+    setTankWeights(weights: Weight[]): void {
+        this.tankWeights = [...weights];
+        stateManager.Debug && console.log(`🛢️ Stored ${weights.length} tank weights in physics`);
+    }
+
+    /**
+     * Gets all tank weights (returns a copy to prevent external modification)
+     * @returns Copy of the tank weights array
+     */
+    getTankWeights(): Weight[] {
+        return [...this.tankWeights];
+    }
+
+    /**
+     * Calculates total weight including base weight, custom weights, painted weights and tank contents
      * @returns Total weight magnitude
      */
     getTotalWeight(): number {
         const baseWeight = this.weight;
         const customWeight = this.customWeights.reduce((sum, w) => sum + w.magnitude, 0);
         const paintedWeight = this.paintedWeights.reduce((sum, w) => sum + w.magnitude, 0);
-        return baseWeight + customWeight + paintedWeight;
+        const tankWeight = this.tankWeights.reduce((sum, w) => sum + w.magnitude, 0);
+        return baseWeight + customWeight + paintedWeight + tankWeight;
+    }
+
+    /**
+     * Calculates the combined centre of gravity of base, custom, painted and tank weights
+     * @param baseWeightCenter - Location of the base weight, in the same coordinates as weight positions
+     * @returns Weighted centre, or the base location when no weight is applied
+     */
+    getCenterOfGravity(baseWeightCenter: THREE.Vector3): THREE.Vector3 {
+        const { positions, magnitudes } = this.getWeightDistribution();
+        const moment = baseWeightCenter.clone().multiplyScalar(this.weight);
+        let total = this.weight;
+
+        positions.forEach((position, i) => {
+            moment.addScaledVector(position, magnitudes[i]);
+            total += magnitudes[i];
+        });
+
+        return total > 0 ? moment.divideScalar(total) : baseWeightCenter.clone();
     }
 
     /**
@@ -84,6 +226,12 @@ export default class Physics {
             magnitudes.push(weight.magnitude);
         });
 
+        // Add liquid in compartments
+        this.tankWeights.forEach(weight => {
+            positions.push(weight.position);
+            magnitudes.push(weight.magnitude);
+        });
+
         return { positions, magnitudes };
     }
 }
\ No newline at end of file
@@ -0,0 +1,300 @@
+// sections.ts
+import type * as Types from "../../types";
+import * as THREE from 'three';
+import { getStationOffsets } from "../utils/geometry/getters";
+
+/** Point in a station plane: x is transverse (starboard positive), y is vertical */
+export interface SectionPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * Waterline trace inside a station plane
+ * Points with a * x + b * y < c are below the water, (a, b) is a unit vector
+ */
+export interface SectionWaterline {
+    a: number;
+    b: number;
+    c: number;
+}
+
+/** Intersection of a waterline trace with a section outline */
+export interface SectionWaterlineCut {
+    length: number;      // Total wetted breadth along the waterline trace
+    center: SectionPoint; // Midpoint of the cut (length-weighted for split cuts)
+    inertia: number;     // Second moment of the cut about its own center
+}
+
+/**
+ * Builds the closed outline of a station from its own offsets and knuckle points
+ * Starboard side runs bottom to top, port side top to bottom (counter-clockwise)
+ */
+export function getSectionPolygon(station: Types.Station): SectionPoint[] {
+    const waterlines = getStationOffsets(station);
+
+    const starboard = waterlines.map(wl => ({
+        x: wl.halfBreadthStarboard !== undefined ? wl.halfBreadthStarboard : wl.halfBreadthPort,
+        y: wl.height
+    }));
+    const port = waterlines.map(wl => ({ x: -wl.halfBreadthPort, y: wl.height })).reverse();
+
+    return [...starboard, ...port];
+}
+
+/**
+ * Finds the lowest height at which one side of a station is as wide as half the keel bar
+ * Flat bottoms wider than the bar give the bottom of the station; a station narrower than the bar all the way up
+ * also gives its bottom, so the bar still closes against the hull there.
+ */
+export function getKeelJoinHeight(station: Types.Station, halfWidth: number, side: 'port' | 'starboard'): number {
+    const offsets = getStationOffsets(station);
+    const breadth = (wl: Types.WaterlineData) =>
+        side === 'starboard' && wl.halfBreadthStarboard !== undefined ? wl.halfBreadthStarboard : wl.halfBreadthPort;
+
+    if (breadth(offsets[0]) >= halfWidth) return offsets[0].height;
+    for (let i = 1; i < offsets.length; i++) {
+        const a = offsets[i - 1];
+        const b = offsets[i];
+        if (breadth(b) < halfWidth) continue;
+        const t = breadth(b) > breadth(a) ? (halfWidth - breadth(a)) / (breadth(b) - breadth(a)) : 0;
+        return a.height + (b.height - a.height) * t;
+    }
+    return offsets[0].height;
+}
+
+/**
+ * Builds the outline of the keel bar below a station, counter-clockwise like getSectionPolygon
+ * The bar runs from its bottom up to where it joins the hull and is closed along the station outline between the
+ * joins, so it adds to the station's own outline without overlapping it
+ */
+export function getKeelSectionPolygon(station: Types.Station, halfWidth: number, bottom: number): SectionPoint[] {
+    const offsets = getStationOffsets(station);
+    const starboardTop = Math.max(getKeelJoinHeight(station, halfWidth, 'starboard'), bottom);
+    const portTop = Math.max(getKeelJoinHeight(station, halfWidth, 'port'), bottom);
+
+    // Station outline below the joins, from the starboard join down to the bottom and back up to the port join
+    const starboard = offsets
+        .filter(wl => wl.height < starboardTop)
+        .map(wl => ({ x: wl.halfBreadthStarboard !== undefined ? wl.halfBreadthStarboard : wl.halfBreadthPort, y: wl.height }))
+        .reverse();
+    const port = offsets
+        .filter(wl => wl.height < portTop)
+        .map(wl => ({ x: -wl.halfBreadthPort, y: wl.height }));
+
+    return [
+        { x: halfWidth, y: bottom },
+        { x: halfWidth, y: starboardTop },
+        ...starboard,
+        ...port,
+        { x: -halfWidth, y: portTop },
+        { x: -halfWidth, y: bottom }
+    ];
+}
+
+/**
+ * Reads a station's half-breadths at any height by linear interpolation between its waterlines
+ * Heights outside the station's range take the nearest waterline
+ */
+function getHalfBreadthsAtHeight(station: Types.Station, height: number): { port: number; starboard: number } {
+    const waterlines = getStationOffsets(station);
+    const starboardOf = (wl: Types.WaterlineData) => wl.halfBreadthStarboard !== undefined ? wl.halfBreadthStarboard : wl.halfBreadthPort;
+    if (waterlines.length === 0) return { port: 0, starboard: 0 };
+
+    const upper = waterlines.findIndex(wl => wl.height >= height);
+    if (upper <= 0) {
+        const wl = waterlines[upper === 0 ? 0 : waterlines.length - 1];
+        return { port: wl.halfBreadthPort, starboard: starboardOf(wl) };
+    }
+
+    const a = waterlines[upper - 1];
+    const b = waterlines[upper];
+    const t = b.height > a.height ? (height - a.height) / (b.height - a.height) : 0;
+    return {
+        port: a.halfBreadthPort + (b.halfBreadthPort - a.halfBreadthPort) * t,
+        starboard: starboardOf(a) + (starboardOf(b) - starboardOf(a)) * t
+    };
+}
+
+/**
+ * Builds a station at any position along the hull by linear interpolation between the bracketing stations
+ * Stations must be sorted by position; returns null outside their range
+ */
+export function getStationAt(stations: Types.Station[], position: number): Types.Station | null {
+    const upper = stations.findIndex(station => station.position >= position);
+    if (upper < 0 || (upper === 0 && stations[0].position > position)) return null;
+    if (upper === 0 || stations[upper].position === position) return stations[upper];
+
+    const a = stations[upper - 1];
+    const b = stations[upper];
+    const t = (position - a.position) / (b.position - a.position);
+    const heights = [...new Set([...getStationOffsets(a), ...getStationOffsets(b)].map(wl => wl.height))].sort((x, y) => x - y);
+
+    return {
+        position,
+        waterlines: heights.map(height => {
+            const lower = getHalfBreadthsAtHeight(a, height);
+            const higher = getHalfBreadthsAtHeight(b, height);
+            return {
+                height,
+                halfBreadthPort: lower.port + (higher.port - lower.port) * t,
+                halfBreadthStarboard: lower.starboard + (higher.starboard - lower.starboard) * t
+            };
+        })
+    };
+}
+
+/**
+ * Gets the trace of a 3D waterplane inside the station plane at position z
+ * Returns null when the waterplane runs parallel to the station plane
+ */
+export function getSectionWaterline(plane: THREE.Plane, z: number): SectionWaterline | null {
+    const { x, y } = plane.normal;
+    const length = Math.hypot(x, y);
+    if (length < 1e-9) return null;
+
+    return {
+        a: x / length,
+        b: y / length,
+        c: (-plane.constant - plane.normal.z * z) / length
+    };
+}
+
+/** Signed distance of a point above the waterline trace (negative when immersed) */
+function signedDistance(p: SectionPoint, line: SectionWaterline): number {
+    return line.a * p.x + line.b * p.y - line.c;
+}
+
+/** Point where segment p1-p2 crosses the waterline trace */
+function crossingPoint(p1: SectionPoint, p2: SectionPoint, d1: number, d2: number): SectionPoint {
+    const t = d1 / (d1 - d2);
+    return {
+        x: p1.x + (p2.x - p1.x) * t,
+        y: p1.y + (p2.y - p1.y) * t
+    };
+}
+
+/**
+ * Clips a section outline to the part below the waterline trace
+ * Single half-plane Sutherland-Hodgman pass
+ */
+export function clipSectionPolygon(polygon: SectionPoint[], line: SectionWaterline): SectionPoint[] {
+    const result: SectionPoint[] = [];
+
+    for (let i = 0; i < polygon.length; i++) {
+        const current = polygon[i];
+        const next = polygon[(i + 1) % polygon.length];
+        const dCurrent = signedDistance(current, line);
+        const dNext = signedDistance(next, line);
+
+        if (dCurrent < 0) result.push(current);
+        if ((dCurrent < 0) !== (dNext < 0)) {
+            result.push(crossingPoint(current, next, dCurrent, dNext));
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Calculates area and centroid of a closed outline with the shoelace formula
+ * Area is returned as an absolute value regardless of winding
+ */
+export function getPolygonAreaAndCentroid(polygon: SectionPoint[]): { area: number; centroid: SectionPoint } {
+    let doubleArea = 0;
+    let cx = 0;
+    let cy = 0;
+
+    for (let i = 0; i < polygon.length; i++) {
+        const p1 = polygon[i];
+        const p2 = polygon[(i + 1) % polygon.length];
+        const cross = p1.x * p2.y - p2.x * p1.y;
+        doubleArea += cross;
+        cx += (p1.x + p2.x) * cross;
+        cy += (p1.y + p2.y) * cross;
+    }
+
+    if (Math.abs(doubleArea) < 1e-12) {
+        return { area: 0, centroid: { x: 0, y: 0 } };
+    }
+
+    return {
+        area: Math.abs(doubleArea) / 2,
+        centroid: { x: cx / (3 * doubleArea), y: cy / (3 * doubleArea) }
+    };
+}
+
+/**
+ * Measures the immersed length of the section outline (wetted girth)
+ * Edges are clipped individually so the waterline cut itself is not counted
+ */
+export function getImmersedGirth(polygon: SectionPoint[], line: SectionWaterline): number {
+    let girth = 0;
+
+    for (let i = 0; i < polygon.length; i++) {
+        const p1 = polygon[i];
+        const p2 = polygon[(i + 1) % polygon.length];
+        const d1 = signedDistance(p1, line);
+        const d2 = signedDistance(p2, line);
+
+        if (d1 >= 0 && d2 >= 0) continue;
+
+        if (d1 < 0 && d2 < 0) {
+            girth += Math.hypot(p2.x - p1.x, p2.y - p1.y);
+        } else {
+            const crossing = crossingPoint(p1, p2, d1, d2);
+            const inside = d1 < 0 ? p1 : p2;
+            girth += Math.hypot(crossing.x - inside.x, crossing.y - inside.y);
+        }
+    }
+
+    return girth;
+}
+
+/**
+ * Intersects the waterline trace with a section outline
+ * Crossings are paired with the even-odd rule so hollow sections split the cut correctly
+ */
+export function getSectionWaterlineCut(polygon: SectionPoint[], line: SectionWaterline): SectionWaterlineCut {
+    // Coordinate along the trace, measured in the (b, -a) direction from the foot point
+    const crossings: number[] = [];
+
+    for (let i = 0; i < polygon.length; i++) {
+        const p1 = polygon[i];
+        const p2 = polygon[(i + 1) % polygon.length];
+        const d1 = signedDistance(p1, line);
+        const d2 = signedDistance(p2, line);
+
+        if ((d1 < 0) !== (d2 < 0)) {
+            const p = crossingPoint(p1, p2, d1, d2);
+            crossings.push(line.b * p.x - line.a * p.y);
+        }
+    }
+
+    crossings.sort((a, b) => a - b);
+
+    let length = 0;
+    let firstMoment = 0;
+    let secondMoment = 0;
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const s0 = crossings[i];
+        const s1 = crossings[i + 1];
+        length += s1 - s0;
+        firstMoment += (s1 * s1 - s0 * s0) / 2;
+        secondMoment += (s1 * s1 * s1 - s0 * s0 * s0) / 3;
+    }
+
+    if (length <= 0) {
+        return { length: 0, center: { x: 0, y: 0 }, inertia: 0 };
+    }
+
+    const s = firstMoment / length;
+    return {
+        length,
+        center: {
+            x: line.a * line.c + line.b * s,
+            y: line.b * line.c - line.a * s
+        },
+        inertia: secondMoment - length * s * s
+    };
+}
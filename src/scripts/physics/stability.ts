@@ -0,0 +1,123 @@
+// stability.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { stateManager } from "../state_manager";
+import { getWaterplane, SEA_WATER_DENSITY } from "./hydrostatics";
+import { getHorizontalAxes, solveEquilibrium } from "./equilibrium";
+
+/** Heel range and solver controls for the righting-arm curve */
+export interface StabilityOptions {
+    startAngle?: number; // degrees, default 0
+    maxAngle?: number;   // degrees, default 90
+    step?: number;       // degrees, default 5
+    freeTrim?: boolean;  // let the hull trim while heeling, default true
+    density?: number;
+    freeSurfaceCorrection?: number; // virtual rise of G from slack tanks, table units, default 0
+}
+
+/**
+ * Integrates the righting-arm curve from the first point up to an angle
+ * Returns the area in table units × radians (trapezoidal rule)
+ */
+export function getAreaUnderGZ(points: Types.StabilityPoint[], upTo: number): number {
+    let area = 0;
+    for (let i = 0; i < points.length - 1; i++) {
+        const a = points[i];
+        const b = points[i + 1];
+        if (a.heel >= upTo) break;
+
+        // Clip the last interval at the requested angle
+        const end = Math.min(b.heel, upTo);
+        const gzEnd = a.gz + (b.gz - a.gz) * (end - a.heel) / (b.heel - a.heel);
+        area += (a.gz + gzEnd) / 2 * THREE.MathUtils.degToRad(end - a.heel);
+    }
+    return area;
+}
+
+/**
+ * Finds the angle where the righting arm returns to zero after the positive range
+ * Linear interpolation between the bracketing points, null if GZ never turns negative
+ */
+function findVanishingAngle(points: Types.StabilityPoint[]): number | null {
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1];
+        const b = points[i];
+        if (a.gz > 0 && b.gz <= 0) {
+            return a.heel + (b.heel - a.heel) * a.gz / (a.gz - b.gz);
+        }
+    }
+    return null;
+}
+
+/**
+ * Heels the hull through a range of angles at constant displacement and returns the GZ curve
+ * Draft (and trim unless disabled) are re-solved at every angle so buoyancy always equals the weight
+ * @param table - Offset table describing the hull
+ * @param mass - Displacement to hold in kg
+ * @param centerOfGravity - Centre of gravity in table coordinates
+ */
+export function computeGZCurve(
+    table: Types.QuoteTable,
+    mass: number,
+    centerOfGravity: THREE.Vector3,
+    options: StabilityOptions = {}
+): Types.StabilityCurve {
+    const startAngle = options.startAngle ?? 0;
+    const maxAngle = options.maxAngle ?? 90;
+    const step = Math.max(options.step ?? 5, 1e-3);
+    const freeTrim = options.freeTrim ?? true;
+    const density = options.density ?? SEA_WATER_DENSITY;
+    const freeSurfaceCorrection = options.freeSurfaceCorrection ?? 0;
+
+    const points: Types.StabilityPoint[] = [];
+    let trim = 0;
+
+    for (let heel = startAngle; heel <= maxAngle + 1e-9; heel += step) {
+        const result = solveEquilibrium(table, mass, centerOfGravity, {
+            density,
+            fixedHeel: heel,
+            fixedTrim: freeTrim ? undefined : trim
+        });
+        trim = result.trim;
+
+        // Righting arm: horizontal offset of B from G across the water surface, less the free-surface loss
+        const up = getWaterplane(table, result.draft, result.trim, heel).normal;
+        const { transverse } = getHorizontalAxes(up);
+        const gz = result.centerOfBuoyancy.clone().sub(centerOfGravity).dot(transverse)
+            - freeSurfaceCorrection * Math.sin(THREE.MathUtils.degToRad(heel));
+
+        points.push({
+            heel,
+            gz,
+            draft: result.draft,
+            trim: result.trim,
+            centerOfBuoyancy: result.centerOfBuoyancy
+        });
+    }
+
+    // Upright metacentre from the equilibrium waterplane at zero heel
+    const upright = solveEquilibrium(table, mass, centerOfGravity, { density, fixedHeel: 0 });
+    const metacenter = upright.centerOfBuoyancy.clone();
+    metacenter.y += upright.hydrostatics.metacentricRadius.transverse;
+
+    const maxPoint = points.reduce<Types.StabilityPoint | null>((max, p) => (!max || p.gz > max.gz ? p : max), null);
+    const angleOfVanishingStability = findVanishingAngle(points);
+    const areaUnderCurve = getAreaUnderGZ(points, angleOfVanishingStability ?? maxAngle);
+
+    stateManager.Debug && console.log(
+        `📐 GZ curve: max ${maxPoint?.gz.toFixed(4)} at ${maxPoint?.heel}°, vanishing at ${angleOfVanishingStability?.toFixed(1) ?? 'n/a'}°`
+    );
+
+    return {
+        points,
+        maxGZ: maxPoint ? maxPoint.gz : 0,
+        angleOfMaxGZ: maxPoint ? maxPoint.heel : 0,
+        angleOfVanishingStability,
+        areaUnderCurve,
+        metacentricHeight: metacenter.y - centerOfGravity.y - freeSurfaceCorrection,
+        freeSurfaceCorrection,
+        metacenter,
+        centerOfGravity: centerOfGravity.clone(),
+        mass
+    };
+}
@@ -0,0 +1,135 @@
+// water_intersection.ts
+import * as Types from "../../types";
+import * as THREE from 'three';
+import { getSortedWaterlines } from "../utils/geometry/getters";
+import { stateManager } from "../state_manager";
+import { computeHydrostatics, getWaterplane, GRAVITY, SEA_WATER_DENSITY } from "./hydrostatics";
+
+/** Rounds a point to a lookup key so segment ends computed from neighbouring triangles meet */
+function pointKey(p: THREE.Vector3): string {
+    return `${p.x.toFixed(6)},${p.y.toFixed(6)},${p.z.toFixed(6)}`;
+}
+
+/**
+ * Point where edge a-b crosses the plane
+ * Ends are ordered first so both triangles sharing the edge produce the exact same point
+ */
+function edgeCrossing(a: THREE.Vector3, b: THREE.Vector3, da: number, db: number): THREE.Vector3 {
+    const swap = a.x > b.x || (a.x === b.x && (a.y > b.y || (a.y === b.y && a.z > b.z)));
+    const [p, q, dp, dq] = swap ? [b, a, db, da] : [a, b, da, db];
+    return p.clone().lerp(q, dp / (dp - dq));
+}
+
+/**
+ * Cuts mesh triangles with a plane and chains the cut segments into polylines
+ * Vertices on the plane count as above it, so every crossed triangle yields exactly one segment
+ * @returns Polylines in mesh-local coordinates, longest first; closed loops do not repeat their first point
+ */
+export function getMeshPlaneIntersection(meshes: THREE.Mesh[], plane: THREE.Plane): THREE.Vector3[][] {
+    const points = new Map<string, THREE.Vector3>();
+    const neighbours = new Map<string, Set<string>>();
+    const vertices = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+
+    const link = (from: string, to: string) => {
+        if (!neighbours.has(from)) neighbours.set(from, new Set());
+        neighbours.get(from)!.add(to);
+    };
+
+    meshes.forEach(mesh => {
+        const position = mesh.geometry.attributes.position;
+        const index = mesh.geometry.index;
+        if (!position) return;
+
+        const count = index ? index.count : position.count;
+        for (let i = 0; i + 2 < count; i += 3) {
+            vertices.forEach((v, k) => v.fromBufferAttribute(position, index ? index.getX(i + k) : i + k));
+            const distances = vertices.map(v => plane.distanceToPoint(v));
+
+            const crossings: THREE.Vector3[] = [];
+            for (let k = 0; k < 3; k++) {
+                const j = (k + 1) % 3;
+                if ((distances[k] < 0) !== (distances[j] < 0)) {
+                    crossings.push(edgeCrossing(vertices[k], vertices[j], distances[k], distances[j]));
+                }
+            }
+            if (crossings.length !== 2) continue;
+
+            const [keyA, keyB] = crossings.map(pointKey);
+            if (keyA === keyB) continue;
+            points.set(keyA, crossings[0]);
+            points.set(keyB, crossings[1]);
+            link(keyA, keyB);
+            link(keyB, keyA);
+        }
+    });
+
+    // Walk the segment graph, starting from open ends so polylines are not split in the middle
+    const visited = new Set<string>();
+    const polylines: THREE.Vector3[][] = [];
+    const starts = [...neighbours.keys()].sort((a, b) => neighbours.get(a)!.size - neighbours.get(b)!.size);
+
+    starts.forEach(start => {
+        if (visited.has(start)) return;
+        const polyline: THREE.Vector3[] = [];
+        let current: string | undefined = start;
+
+        while (current !== undefined) {
+            visited.add(current);
+            polyline.push(points.get(current)!);
+            current = [...neighbours.get(current)!].find(next => !visited.has(next));
+        }
+        if (polyline.length > 1) polylines.push(polyline);
+    });
+
+    return polylines.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Computes the waterline of the hull mesh at a floating attitude together with its hydrostatics
+ * Points, buoyancy centre and flotation centre are in hull-local coordinates (table coordinates × unit scale), like the meshes
+ * @param table - Offset table describing the hull
+ * @param meshes - Shell meshes to cut, in hull-local coordinates
+ * @param attitude - Draft, trim and heel of the waterplane
+ * @param unitScale - Scale from table units to hull-local units
+ */
+export function computeWaterIntersection(
+    table: Types.QuoteTable,
+    meshes: THREE.Mesh[],
+    attitude: { draft: number; trim: number; heel: number },
+    unitScale: number,
+    density = SEA_WATER_DENSITY
+): Types.WaterIntersectionData {
+    const plane = getWaterplane(table, attitude.draft, attitude.trim, attitude.heel);
+    const hydro = computeHydrostatics(table, attitude.draft, attitude.trim, attitude.heel, density);
+
+    // The mesh lives in scaled table coordinates, so only the plane offset changes
+    const localPlane = new THREE.Plane(plane.normal.clone(), plane.constant * unitScale);
+    const loops = getMeshPlaneIntersection(meshes, localPlane);
+
+    const { longitudinal, vertical, transverse } = hydro.centerOfBuoyancy;
+    const centerOfBuoyancy = new THREE.Vector3(transverse, vertical, longitudinal);
+
+    // Centre of flotation lifted onto the waterplane
+    const cf = hydro.centerOfFloatation;
+    const cfHeight = Math.abs(plane.normal.y) > 1e-9
+        ? -(plane.constant + plane.normal.x * cf.transverse + plane.normal.z * cf.longitudinal) / plane.normal.y
+        : 0;
+    const centerOfFloatation = new THREE.Vector3(cf.transverse, cfHeight, cf.longitudinal).multiplyScalar(unitScale);
+
+    const waterlines = getSortedWaterlines(table);
+    const baseline = waterlines.length > 0 ? waterlines[0] : 0;
+
+    stateManager.Debug && console.log(`〰️ Waterline cut: ${loops.length} loops, ${loops[0]?.length ?? 0} points in the main loop`);
+
+    return {
+        points: loops[0] ?? [],
+        loops,
+        area: hydro.waterplaneArea,
+        volume: hydro.volume,
+        centerOfBuoyancy,
+        centerOfFloatation,
+        metacenter: vertical - baseline + hydro.metacentricRadius.transverse,
+        buoyancyForce: plane.normal.clone().multiplyScalar(hydro.displacement * GRAVITY),
+        buoyancyCenter: centerOfBuoyancy.clone().multiplyScalar(unitScale)
+    };
+}
@@ -13,6 +13,8 @@ export type StateChangeType =
   | 'ShowWaterlines' 
   | 'Debug' 
   | 'WireframeActive' 
+  | 'ZebraStripesActive' 
+  | 'ZebraStripes' 
   | 'HullDetailLevel' 
   | 'ActiveGroups' 
   | 'Units';
@@ -38,6 +40,10 @@ interface State{
     set Debug(debug: boolean);
     get WireframeActive(): boolean;
     set WireframeActive(active: boolean);
+    get ZebraStripesActive(): boolean;
+    set ZebraStripesActive(active: boolean);
+    get ZebraStripes(): Types.ZebraStripeConfig;
+    set ZebraStripes(config: Types.ZebraStripeConfig);
     get HullDetailLevel(): Types.LODConfig;
     set HullDetailLevel(lod: Types.LODConfig);
     get ActiveGroups(): Types.HullGroups;
@@ -56,9 +62,16 @@ interface ObserverConfig {
  */
 class StateManager implements State {
     // Internal state properties with default values
-    private units: "m" | "mm" | "ft" = "m";
+    private units: "m" | "mm" | "ft" | "in" = "m";
     private debug = false;
     private wireframe = false;
+    private zebraStripesActive = false;
+    private zebraStripes: Types.ZebraStripeConfig = {
+        mode: 'reflection',
+        stripes: 12,
+        width: 0.5,
+        axis: [0, 1, 0]
+    };
     private addWeightActive = false;
     private hullDetailLevel: Types.LODConfig = {
         enableSmoothing: true,
@@ -120,7 +133,7 @@ class StateManager implements State {
     
     /** Manually trigger notifications for all properties */
     notifyAll() {
-        this.notifyObservers(['CurrentOrthoView', 'CameraMode', 'AddWeightActive', 'ShowHull', 'ShowDeck', 'ShowStations', 'ShowWaterlines', 'Debug', 'WireframeActive', 'HullDetailLevel', 'ActiveGroups', 'Units']);
+        this.notifyObservers(['CurrentOrthoView', 'CameraMode', 'AddWeightActive', 'ShowHull', 'ShowDeck', 'ShowStations', 'ShowWaterlines', 'Debug', 'WireframeActive', 'ZebraStripesActive', 'ZebraStripes', 'HullDetailLevel', 'ActiveGroups', 'Units']);
     }
 
     // === VIEW AND CAMERA PROPERTIES ===
@@ -223,7 +236,7 @@ class StateManager implements State {
     // === APPLICATION SETTINGS ===
 
     /** Set measurement units and notify observers if changed */
-    set Units(units: "m" | "mm" | "ft") {
+    set Units(units: "m" | "mm" | "ft" | "in") {
         if (this.units !== units) {
             this.units = units;
             this.notifyObservers(['Units']);
@@ -251,6 +264,32 @@ class StateManager implements State {
         return this.wireframe;
     }
     
+    /** Set zebra stripe rendering of the hull, bow and transom and notify observers if changed */
+    set ZebraStripesActive(active: boolean) {
+        if (this.zebraStripesActive !== active) {
+            this.zebraStripesActive = active;
+            this.notifyObservers(['ZebraStripesActive']);
+        }
+    }
+
+    /** Get zebra stripe rendering state */
+    get ZebraStripesActive() {
+        return this.zebraStripesActive;
+    }
+
+    /** Set zebra stripe mode, count, width and axis and notify observers if changed */
+    set ZebraStripes(config: Types.ZebraStripeConfig) {
+        if (JSON.stringify(this.zebraStripes) !== JSON.stringify(config)) {
+            this.zebraStripes = config;
+            this.notifyObservers(['ZebraStripes']);
+        }
+    }
+
+    /** Get current zebra stripe settings */
+    get ZebraStripes() {
+        return this.zebraStripes;
+    }
+
     /** Get debug mode state */
     get Debug() {
         return this.debug;
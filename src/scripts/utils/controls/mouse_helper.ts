@@ -465,13 +465,14 @@ export default class MouseHelper {
     public getWorldPositionFromHull(hull: Hull): THREE.Vector3 | null {
         this.raycaster.setFromCamera(this.position, this.cameraHelperRef.getCamera());
 
-        const { bowMesh, deckMesh, hullMesh, transomMesh, waterlines } = hull.getSeparatedHullMesh();
+        const { bowMesh, deckMesh, hullMesh, keelMesh, transomMesh, waterlines } = hull.getSeparatedHullMesh();
         const intersectMeshes = [];
 
         // Only include meshes that are currently visible according to state manager
         stateManager.ShowHull && intersectMeshes.push(hullMesh);
         stateManager.ShowHull && intersectMeshes.push(transomMesh);
         stateManager.ShowHull && intersectMeshes.push(bowMesh);
+        stateManager.ShowHull && keelMesh && intersectMeshes.push(keelMesh);
         stateManager.ShowDeck && intersectMeshes.push(deckMesh);
         stateManager.ShowWaterlines && intersectMeshes.push(waterlines);
 
@@ -106,6 +106,11 @@ export class PaintSelectionTool {
         stateManager.Debug && console.log('✅ Hull set in PaintSelectionTool');
     }
 
+    /** Gets the brush size for selection */
+    getBrushSize(): number {
+        return this.brushSize;
+    }
+
     /** Sets the brush size for selection */
     setBrushSize(size: number) {
         this.brushSize = size;
@@ -244,7 +249,7 @@ export class PaintSelectionTool {
     private getVisibleHullMeshesForSelection(): THREE.Object3D[] {
         if (!this.hull) return [];
 
-        const { hullMesh, transomMesh, bowMesh, deckMesh, stationsMesh } = this.hull.getSeparatedHullMesh();
+        const { hullMesh, transomMesh, bowMesh, keelMesh, deckMesh, stationsMesh } = this.hull.getSeparatedHullMesh();
         const meshes: THREE.Object3D[] = [];
 
         // Helper to check if mesh is visible in scene hierarchy
@@ -264,6 +269,7 @@ export class PaintSelectionTool {
             if (isMeshVisible(hullMesh)) meshes.push(hullMesh);
             if (transomMesh && isMeshVisible(transomMesh)) meshes.push(transomMesh);
             if (bowMesh && isMeshVisible(bowMesh)) meshes.push(bowMesh);
+            if (keelMesh && isMeshVisible(keelMesh)) meshes.push(keelMesh);
         }
 
         if (stateManager.ShowDeck && deckMesh && isMeshVisible(deckMesh)) {
@@ -286,11 +292,12 @@ export class PaintSelectionTool {
     private getMeshType(mesh: THREE.Mesh): string {
         if (!this.hull) return 'unknown';
 
-        const { hullMesh, transomMesh, bowMesh, deckMesh, stationsMesh } = this.hull.getSeparatedHullMesh();
+        const { hullMesh, transomMesh, bowMesh, keelMesh, deckMesh, stationsMesh } = this.hull.getSeparatedHullMesh();
 
         if (mesh === hullMesh) return 'hull';
         if (mesh === transomMesh) return 'transom';
         if (mesh === bowMesh) return 'bow';
+        if (mesh === keelMesh) return 'keel';
         if (mesh === deckMesh) return 'deck';
 
         // Check if it's a station mesh
@@ -523,6 +530,7 @@ export class PaintSelectionTool {
             station: 0,
             transom: 0,
             bow: 0,
+            keel: 0,
             unknown: 0
         };
 
@@ -0,0 +1,270 @@
+import type {
+  CurvatureLegend,
+  CurvatureType,
+  PorcupineCurve,
+  PorcupinePoint,
+  QuoteTable,
+  VertexCurvature
+} from "../../../types";
+import * as THREE from "three";
+import { getSortedStations } from "./getters";
+
+// Diverging scale from concave (blue) through flat (green) to convex (red)
+const CURVATURE_COLORS = [0x2c7bb6, 0x00b4d8, 0x4caf50, 0xffd60a, 0xd7191c];
+
+/** Rounds a vertex position to a key, so faces split along seams share their corners */
+function positionKey(x: number, y: number, z: number): string {
+  return `${x.toFixed(6)},${y.toFixed(6)},${z.toFixed(6)}`;
+}
+
+/**
+ * Estimates the curvatures at every vertex of a triangle mesh
+ * Gaussian curvature is the angle deficit and mean curvature the cotangent Laplacian, both over the
+ * barycentric vertex area; principal curvatures follow from k = H ± √(H² − K). Coincident vertices are
+ * treated as one, and boundary vertices take the average of their interior neighbours.
+ * @param geometry - Indexed hull geometry in hull-local coordinates
+ * @param unitScale - Hull-local units per table unit, so curvatures come out per table unit
+ */
+export function computeVertexCurvature(geometry: THREE.BufferGeometry, unitScale = 1): VertexCurvature {
+  const position = geometry.attributes.position;
+  const index = geometry.index;
+  const count = position.count;
+
+  // Merge coincident vertices
+  const merged = new Int32Array(count);
+  const points: THREE.Vector3[] = [];
+  const ids = new Map<string, number>();
+  for (let i = 0; i < count; i++) {
+    const key = positionKey(position.getX(i), position.getY(i), position.getZ(i));
+    let id = ids.get(key);
+    if (id === undefined) {
+      id = points.length;
+      points.push(new THREE.Vector3().fromBufferAttribute(position, i));
+      ids.set(key, id);
+    }
+    merged[i] = id;
+  }
+
+  const n = points.length;
+  const area = new Float64Array(n);
+  const angles = new Float64Array(n);
+  const laplacian = points.map(() => new THREE.Vector3());
+  const normals = points.map(() => new THREE.Vector3());
+  const neighbours = points.map(() => new Set<number>());
+  const edgeUses = new Map<string, number>();
+
+  const center = new THREE.Box3().setFromPoints(points).getCenter(new THREE.Vector3());
+  let outward = 0;
+
+  const faceCount = index ? index.count : count;
+  const e1 = new THREE.Vector3();
+  const e2 = new THREE.Vector3();
+  for (let f = 0; f + 2 < faceCount; f += 3) {
+    const corners = [0, 1, 2].map(k => merged[index ? index.getX(f + k) : f + k]);
+    if (new Set(corners).size < 3) continue;
+    const [pa, pb, pc] = corners.map(id => points[id]);
+    const faceNormal = e1.subVectors(pb, pa).clone().cross(e2.subVectors(pc, pa));
+    const faceArea = faceNormal.length() / 2;
+    if (faceArea === 0) continue;
+
+    // The shell is wound consistently, which way out is settled over the whole mesh below
+    const centroid = pa.clone().add(pb).add(pc).divideScalar(3);
+    outward += faceNormal.dot(new THREE.Vector3(centroid.x - center.x, centroid.y - center.y, 0));
+
+    corners.forEach((id, k) => {
+      const next = corners[(k + 1) % 3];
+      const prev = corners[(k + 2) % 3];
+      const toNext = points[next].clone().sub(points[id]);
+      const toPrev = points[prev].clone().sub(points[id]);
+      const angle = toNext.angleTo(toPrev);
+
+      area[id] += faceArea / 3;
+      angles[id] += angle;
+      normals[id].addScaledVector(faceNormal, angle / (2 * faceArea));
+      neighbours[id].add(next).add(prev);
+
+      // The angle at this corner weights the opposite edge
+      const cot = 1 / Math.tan(angle);
+      laplacian[next].addScaledVector(points[prev].clone().sub(points[next]), cot);
+      laplacian[prev].addScaledVector(points[next].clone().sub(points[prev]), cot);
+
+      const edge = id < next ? `${id},${next}` : `${next},${id}`;
+      edgeUses.set(edge, (edgeUses.get(edge) ?? 0) + 1);
+    });
+  }
+
+  const boundary = new Uint8Array(n);
+  edgeUses.forEach((uses, edge) => {
+    if (uses !== 1) return;
+    edge.split(',').forEach(id => boundary[Number(id)] = 1);
+  });
+
+  const sign = outward < 0 ? -1 : 1;
+  const gaussian = new Float64Array(n);
+  const mean = new Float64Array(n);
+  for (let v = 0; v < n; v++) {
+    if (boundary[v] || area[v] === 0) continue;
+    gaussian[v] = (2 * Math.PI - angles[v]) / area[v];
+    mean[v] = -sign * laplacian[v].dot(normals[v].normalize()) / (4 * area[v]);
+  }
+
+  // Boundary vertices have no full fan of faces; borrow from the interior next to them
+  for (let v = 0; v < n; v++) {
+    if (!boundary[v]) continue;
+    const interior = [...neighbours[v]].filter(u => !boundary[u] && area[u] > 0);
+    if (interior.length === 0) continue;
+    gaussian[v] = interior.reduce((sum, u) => sum + gaussian[u], 0) / interior.length;
+    mean[v] = interior.reduce((sum, u) => sum + mean[u], 0) / interior.length;
+  }
+
+  const result: VertexCurvature = {
+    gaussian: new Float32Array(count),
+    mean: new Float32Array(count),
+    maximum: new Float32Array(count),
+    minimum: new Float32Array(count)
+  };
+  for (let i = 0; i < count; i++) {
+    const k = gaussian[merged[i]] * unitScale * unitScale;
+    const h = mean[merged[i]] * unitScale;
+    const spread = Math.sqrt(Math.max(h * h - k, 0));
+    result.gaussian[i] = k;
+    result.mean[i] = h;
+    result.maximum[i] = h + spread;
+    result.minimum[i] = h - spread;
+  }
+  return result;
+}
+
+/** Default colour range: ± the 95th percentile of the absolute values, so a few spikes do not wash out the rest */
+export function getDefaultCurvatureRange(values: ArrayLike<number>): [number, number] {
+  const magnitudes = Array.from(values, Math.abs).filter(Number.isFinite).sort((a, b) => a - b);
+  const limit = magnitudes.length > 0 ? magnitudes[Math.floor((magnitudes.length - 1) * 0.95)] : 0;
+  return limit > 0 ? [-limit, limit] : [-1, 1];
+}
+
+/** Colour of a value on the curvature scale, clamped to the range */
+function getCurvatureColor(value: number, min: number, max: number): THREE.Color {
+  const t = max > min ? THREE.MathUtils.clamp((value - min) / (max - min), 0, 1) : 0.5;
+  const scaled = t * (CURVATURE_COLORS.length - 1);
+  const i = Math.min(Math.floor(scaled), CURVATURE_COLORS.length - 2);
+  return new THREE.Color(CURVATURE_COLORS[i]).lerp(new THREE.Color(CURVATURE_COLORS[i + 1]), scaled - i);
+}
+
+/**
+ * Maps curvature values to vertex colours
+ * @returns RGB triples for a 'color' attribute
+ */
+export function getCurvatureColors(values: ArrayLike<number>, range: [number, number]): Float32Array {
+  const colors = new Float32Array(values.length * 3);
+  for (let i = 0; i < values.length; i++) {
+    getCurvatureColor(values[i], range[0], range[1]).toArray(colors, i * 3);
+  }
+  return colors;
+}
+
+/** Describes the colour scale for a legend, one stop per colour of the scale */
+export function getCurvatureLegend(type: CurvatureType, range: [number, number]): CurvatureLegend {
+  const [min, max] = range;
+  const stops = CURVATURE_COLORS.map((_, i) => {
+    const value = min + (max - min) * i / (CURVATURE_COLORS.length - 1);
+    return { value, color: `#${getCurvatureColor(value, min, max).getHexString()}` };
+  });
+  return { type, min, max, stops };
+}
+
+/**
+ * Signed curvature of a polyline at its interior points
+ * Uses the circle through each point and its neighbours; points are (u, v) pairs in the plane of the curve.
+ */
+function getPolylineCurvature(
+  points: [number, number][]
+): { curvature: number; normal: [number, number] }[] {
+  const result: { curvature: number; normal: [number, number] }[] = [];
+  for (let i = 1; i + 1 < points.length; i++) {
+    const [u0, v0] = points[i - 1];
+    const [u1, v1] = points[i];
+    const [u2, v2] = points[i + 1];
+    const cross = (u1 - u0) * (v2 - v1) - (v1 - v0) * (u2 - u1);
+    const chords = Math.hypot(u1 - u0, v1 - v0) * Math.hypot(u2 - u1, v2 - v1) * Math.hypot(u2 - u0, v2 - v0);
+    const tangent = Math.hypot(u2 - u0, v2 - v0);
+    result.push({
+      curvature: chords > 0 ? 2 * cross / chords : 0,
+      normal: tangent > 0 ? [-(v2 - v0) / tangent, (u2 - u0) / tangent] : [0, 0]
+    });
+  }
+  return result;
+}
+
+/** Collects a curve's porcupine points and counts its inflections, ignoring curvature too small to tell from flat */
+function buildPorcupineCurve(
+  kind: PorcupineCurve['kind'],
+  value: number,
+  side: PorcupineCurve['side'],
+  points: THREE.Vector3[],
+  toPlane: (p: THREE.Vector3) => [number, number],
+  fromPlane: (normal: [number, number]) => THREE.Vector3
+): PorcupineCurve {
+  const porcupine: PorcupinePoint[] = getPolylineCurvature(points.map(toPlane)).map((sample, i) => ({
+    position: points[i + 1].clone(),
+    normal: fromPlane(sample.normal),
+    curvature: sample.curvature
+  }));
+  const maxCurvature = porcupine.reduce((max, p) => Math.max(max, Math.abs(p.curvature)), 0);
+
+  let inflections = 0;
+  let lastSign = 0;
+  porcupine.forEach(p => {
+    if (Math.abs(p.curvature) <= maxCurvature * 1e-3) return;
+    const sign = Math.sign(p.curvature);
+    if (lastSign !== 0 && sign !== lastSign) inflections++;
+    lastSign = sign;
+  });
+
+  return { kind, value, side, points: porcupine, maxCurvature, inflections };
+}
+
+/**
+ * Computes curvature porcupines along every station and waterline curve of a table
+ * Station curves run up the section in the transverse plane, waterline curves run from bow to stern in the
+ * horizontal plane; port lies at negative x. Starboard curves are added only for asymmetric tables.
+ * @param table - Offset table, usually refined with interpolateHullGrid so the curves follow the generated hull
+ */
+export function computePorcupines(table: QuoteTable): PorcupineCurve[] {
+  const stations = getSortedStations(table);
+  const sides: PorcupineCurve['side'][] = stations.some(s => s.waterlines.some(w => w.halfBreadthStarboard !== undefined))
+    ? ['port', 'starboard']
+    : ['port'];
+  const halfBreadth = (w: QuoteTable['stations'][number]['waterlines'][number], side: PorcupineCurve['side']) =>
+    side === 'starboard' ? w.halfBreadthStarboard ?? w.halfBreadthPort : w.halfBreadthPort;
+  const sideSign = (side: PorcupineCurve['side']) => side === 'port' ? -1 : 1;
+
+  const curves: PorcupineCurve[] = [];
+  sides.forEach(side => {
+    stations.forEach(station => {
+      const points = [...station.waterlines]
+        .sort((a, b) => a.height - b.height)
+        .map(w => new THREE.Vector3(sideSign(side) * halfBreadth(w, side), w.height, station.position));
+      if (points.length < 3) return;
+      curves.push(buildPorcupineCurve(
+        'station', station.position, side, points,
+        p => [p.x, p.y],
+        ([u, v]) => new THREE.Vector3(u, v, 0)
+      ));
+    });
+
+    const heights = [...new Set(stations.flatMap(s => s.waterlines.map(w => w.height)))].sort((a, b) => a - b);
+    heights.forEach(height => {
+      const points = stations.flatMap(station => {
+        const w = station.waterlines.find(w => Math.abs(w.height - height) < 1e-9);
+        return w ? [new THREE.Vector3(sideSign(side) * halfBreadth(w, side), height, station.position)] : [];
+      });
+      if (points.length < 3) return;
+      curves.push(buildPorcupineCurve(
+        'waterline', height, side, points,
+        p => [p.z, p.x],
+        ([u, v]) => new THREE.Vector3(v, 0, u)
+      ));
+    });
+  });
+  return curves;
+}
@@ -1,42 +1,100 @@
-import { getChineVertices, getPanelVertices } from "../getters";
-import { areChineVerticesValid } from "../validators";
+import * as Types from "../../../../types";
+import { stateManager } from "../../../state_manager";
+import { getSortedStations, getSortedWaterlines, getStationOffsets } from "../getters";
+import { interpolateStationAtHeight } from "../helpers";
 
 /**
- * Generates triangular faces for a chine panel - specialized hull section with curved transitions
- * Chine panels create smoother transitions between hull surfaces at the bottom edges
+ * Gets the knuckles of a station inside its measured height range, sorted from the keel up
+ * Knuckles outside the offsets have no surface to break and are left out
  */
-export function generateChinePanel(
-  indices: number[],
-  vertexMap: Record<string, number>,
-  s: number,
-  w: number
-) {
-  // Get standard panel vertices and specialized chine vertices
-  const vertices = getPanelVertices(vertexMap, s, w);
-  const chineVertices = getChineVertices(vertexMap, s, w);
-
-  // Skip generation if chine vertices are incomplete
-  if (!areChineVerticesValid(chineVertices)) {
-    return;
+function getStationKnuckles(station: Types.Station): Types.KnucklePoint[] {
+  const heights = station.waterlines.map(wl => wl.height);
+  const bottom = Math.min(...heights);
+  const top = Math.max(...heights);
+  return [...station.knuckles ?? []]
+    .filter(k => k.height >= bottom && k.height <= top)
+    .sort((a, b) => a.height - b.height);
+}
+
+/**
+ * Lays out the vertex rows of every station
+ * Without knuckles the rows are the common waterlines. With knuckles each station is cut into pieces at its knuckles;
+ * each piece gets as many rows as the station with the most offsets inside it, taken from the offsets where they
+ * fit and spaced evenly along the piece otherwise, so knuckle lines always run along mesh edges.
+ * A station without a knuckle of its own gets one where its neighbours put it, but its surface is not broken there.
+ */
+export function getHullRowLayout(table: Types.QuoteTable): Types.HullRowLayout {
+  const stations = getSortedStations(table).filter(station => station.waterlines.length > 0);
+  const knuckles = stations.map(getStationKnuckles);
+  const count = Math.max(0, ...knuckles.map(k => k.length));
+
+  if (count === 0) {
+    const heights = getSortedWaterlines(table);
+    if (table.metadata.hasChine) {
+      stateManager.Debug && console.warn('⚠️ metadata.hasChine is deprecated and ignored; declare knuckles on the stations to mesh a chine');
+    }
+    return {
+      positions: stations.map(station => station.position),
+      rows: stations.map(station => heights.map(h => station.waterlines.find(wl => wl.height === h))),
+      seams: [],
+      hardEdges: []
+    };
   }
 
-  // Starboard side triangles - creates two quad sections divided into triangles
-  // Upper starboard triangle: topLeft → topRight → chineTopRight
-  indices.push(vertices.topLeft, vertices.topRight, chineVertices.chineTopRight);
-  // Lower starboard triangle: topLeft → chineTopRight → chineTopLeft
-  indices.push(vertices.topLeft, chineVertices.chineTopRight, chineVertices.chineTopLeft);
-  // Middle starboard triangle: chineTopLeft → chineTopRight → chineBottomRight
-  indices.push(chineVertices.chineTopLeft, chineVertices.chineTopRight, chineVertices.chineBottomRight);
-  // Bottom starboard triangle: chineTopLeft → chineBottomRight → chineBottomLeft
-  indices.push(chineVertices.chineTopLeft, chineVertices.chineBottomRight, chineVertices.chineBottomLeft);
-
-  // Port side triangles - creates two quad sections divided into triangles (reverse winding)
-  // Upper port triangle: topLeftPort → chineTopLeftPort → chineTopRightPort
-  indices.push(vertices.topLeftPort, chineVertices.chineTopLeftPort, chineVertices.chineTopRightPort);
-  // Lower port triangle: topLeftPort → chineTopRightPort → topRightPort
-  indices.push(vertices.topLeftPort, chineVertices.chineTopRightPort, vertices.topRightPort);
-  // Middle port triangle: chineTopLeftPort → chineBottomLeftPort → chineBottomRightPort
-  indices.push(chineVertices.chineTopLeftPort, chineVertices.chineBottomLeftPort, chineVertices.chineBottomRightPort);
-  // Bottom port triangle: chineTopLeftPort → chineBottomRightPort → chineTopRightPort
-  indices.push(chineVertices.chineTopLeftPort, chineVertices.chineBottomRightPort, chineVertices.chineTopRightPort);
-}
\ No newline at end of file
+  // Fill in knuckles a station lacks from the nearest stations along the hull that have them
+  const hardEdges = knuckles.map(own => Array.from({ length: count }, (_, k) => k < own.length));
+  const filled = stations.map((station, s) => {
+    const offsets = getStationOffsets(station);
+    const bottom = station.waterlines.reduce((min, wl) => Math.min(min, wl.height), Infinity);
+    const top = station.waterlines.reduce((max, wl) => Math.max(max, wl.height), -Infinity);
+    const points: Types.WaterlineData[] = [];
+
+    for (let k = 0; k < count; k++) {
+      if (k < knuckles[s].length) {
+        points.push(knuckles[s][k]);
+        continue;
+      }
+      const carriers = stations.map((other, i) => ({ position: other.position, knuckle: knuckles[i][k] })).filter(c => c.knuckle);
+      const after = carriers.findIndex(c => c.position >= station.position);
+      const a = carriers[after <= 0 ? 0 : after - 1];
+      const b = carriers[after < 0 ? carriers.length - 1 : after];
+      const t = b.position > a.position ? (station.position - a.position) / (b.position - a.position) : 0;
+      const below = k > 0 ? points[k - 1].height : bottom;
+      const height = Math.min(Math.max(a.knuckle.height + (b.knuckle.height - a.knuckle.height) * t, below), top);
+      points.push(interpolateStationAtHeight(offsets, height));
+    }
+    return { offsets, bottom, top, points };
+  });
+
+  // Rows strictly inside each piece, and the most any station has
+  const pieces = filled.map(({ offsets, bottom, top, points }) => Array.from({ length: count + 1 }, (_, j) => {
+    const low = j === 0 ? bottom : points[j - 1].height;
+    const high = j === count ? top : points[j].height;
+    return { low, high, inside: offsets.filter(wl => wl.height > low && wl.height < high) };
+  }));
+  const rowsInside = Array.from({ length: count + 1 }, (_, j) => Math.max(...pieces.map(p => p[j].inside.length)));
+
+  const seams: number[] = [];
+  const rows = filled.map(({ offsets, points }, s) => {
+    const column: Types.WaterlineData[] = [interpolateStationAtHeight(offsets, pieces[s][0].low)];
+    for (let j = 0; j <= count; j++) {
+      const { low, high, inside } = pieces[s][j];
+      if (inside.length === rowsInside[j]) {
+        column.push(...inside);
+      } else {
+        for (let i = 1; i <= rowsInside[j]; i++) {
+          column.push(interpolateStationAtHeight(offsets, low + (high - low) * i / (rowsInside[j] + 1)));
+        }
+      }
+      if (j < count) {
+        if (s === 0) seams.push(column.length);
+        column.push(points[j], points[j]);
+      }
+    }
+    column.push(interpolateStationAtHeight(offsets, pieces[s][count].high));
+    return column;
+  });
+
+  stateManager.Debug && console.log(`🔪 Row layout: ${rows[0].length} rows with ${count} knuckle line(s)`);
+  return { positions: stations.map(station => station.position), rows, seams, hardEdges };
+}
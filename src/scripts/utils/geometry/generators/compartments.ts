@@ -0,0 +1,104 @@
+import * as Types from "../../../../types";
+import { stateManager } from "../../../state_manager";
+import * as THREE from "three";
+import { getCompartmentSections } from "../../../physics/compartments";
+import { getPolygonAreaAndCentroid, type SectionPoint } from "../../../physics/sections";
+
+const RING_SEGMENTS = 32;
+
+/**
+ * Resamples a section outline to a fixed number of points by casting rays from its centroid
+ * Gives every section the same vertex count so neighbouring rings can be joined with quads
+ */
+function resampleOutline(polygon: SectionPoint[], center: SectionPoint): SectionPoint[] {
+  const ring: SectionPoint[] = [];
+
+  for (let k = 0; k < RING_SEGMENTS; k++) {
+    const angle = (k / RING_SEGMENTS) * Math.PI * 2;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    let reach = 0;
+
+    // Furthest crossing of the ray with any outline edge
+    for (let i = 0; i < polygon.length; i++) {
+      const p1 = polygon[i];
+      const p2 = polygon[(i + 1) % polygon.length];
+      const ex = p2.x - p1.x;
+      const ey = p2.y - p1.y;
+      const denominator = dx * ey - dy * ex;
+      if (Math.abs(denominator) < 1e-12) continue;
+
+      const t = ((p1.x - center.x) * ey - (p1.y - center.y) * ex) / denominator;
+      const u = ((p1.x - center.x) * dy - (p1.y - center.y) * dx) / denominator;
+      if (t >= 0 && u >= 0 && u <= 1) reach = Math.max(reach, t);
+    }
+
+    ring.push({ x: center.x + dx * reach, y: center.y + dy * reach });
+  }
+
+  return ring;
+}
+
+/**
+ * Generates a closed surface for a compartment, or for the liquid inside it
+ * Rings are lofted between the sampled sections and capped at both ends
+ * @param liquidHeight - Optional free surface; the volume is cut off above it
+ */
+export function generateCompartmentGeometry(
+  table: Types.QuoteTable,
+  compartment: Types.Compartment,
+  liquidHeight?: number
+): THREE.BufferGeometry {
+  const scale = stateManager.getUnits();
+  const geometry = new THREE.BufferGeometry();
+
+  const sections = getCompartmentSections(table, compartment, liquidHeight)
+    .map(section => ({ position: section.position, polygon: section.polygon, ...getPolygonAreaAndCentroid(section.polygon) }))
+    .filter(section => section.area > 0);
+
+  if (sections.length < 2) {
+    stateManager.Debug && console.warn(`Compartment ${compartment.name} has no volume to draw`);
+    return geometry;
+  }
+
+  const positions: number[] = [];
+  const indices: number[] = [];
+  const centers: number[] = [];
+
+  sections.forEach(section => {
+    resampleOutline(section.polygon, section.centroid).forEach(p => {
+      positions.push(p.x * scale, p.y * scale, section.position * scale);
+    });
+  });
+
+  // Side walls between consecutive rings
+  for (let s = 0; s < sections.length - 1; s++) {
+    for (let k = 0; k < RING_SEGMENTS; k++) {
+      const a = s * RING_SEGMENTS + k;
+      const b = s * RING_SEGMENTS + (k + 1) % RING_SEGMENTS;
+      const c = a + RING_SEGMENTS;
+      const d = b + RING_SEGMENTS;
+      indices.push(a, c, b, b, c, d);
+    }
+  }
+
+  // End caps fanned from the section centroids
+  [0, sections.length - 1].forEach(s => {
+    const section = sections[s];
+    const center = positions.length / 3 + centers.length / 3;
+    centers.push(section.centroid.x * scale, section.centroid.y * scale, section.position * scale);
+    for (let k = 0; k < RING_SEGMENTS; k++) {
+      const a = s * RING_SEGMENTS + k;
+      const b = s * RING_SEGMENTS + (k + 1) % RING_SEGMENTS;
+      if (s === 0) indices.push(center, b, a);
+      else indices.push(center, a, b);
+    }
+  });
+
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute([...positions, ...centers], 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+
+  stateManager.Debug && console.log(`Generated compartment ${compartment.name} from ${sections.length} sections`);
+  return geometry;
+}
@@ -1,12 +1,11 @@
 import * as Types from "../../../../types";
-import { getPanelVertices, getSortedStations, getSortedWaterlines } from "../getters";
+import { getPanelVertices, getSortedStations } from "../getters";
 import { areAllPanelVerticesValid } from "../validators";
-import { generateChinePanel } from "./chine";
 import { generateKeelConnection } from "./keel";
 
 /**
  * Generates triangular faces for a single hull panel defined by station and waterline indices
- * Handles different panel types based on hull features (chine, keel) and position
+ * Handles different panel types based on hull features (keel) and position
  */
 export function generatePanelFaces(
   indices: number[],
@@ -14,8 +13,7 @@ export function generatePanelFaces(
   keelVertices: number[],
   s: number,
   w: number,
-  hasKeel: boolean,
-  hasChine: boolean
+  hasKeel: boolean
 ) {
   // Get all vertex indices for this panel (both starboard and port sides)
   const vertices = getPanelVertices(vertexMap, s, w);
@@ -25,13 +23,8 @@ export function generatePanelFaces(
     return;
   }
 
-  // Generate specialized chine panels for bottom row if chine is enabled
-  if (hasChine && w === 0) {
-    generateChinePanel(indices, vertexMap, s, w);
-  } else {
-    // Generate standard quadrilateral panel divided into triangles
-    generateStandardPanel(indices, vertices);
-  }
+  // Generate standard quadrilateral panel divided into triangles
+  generateStandardPanel(indices, vertices);
 
   // Add keel connection triangles for bottom row if keel is enabled
   if (hasKeel && w === 0) {
@@ -41,33 +34,33 @@ export function generatePanelFaces(
 
 /**
  * Main face generation orchestrator - creates all triangular faces for the entire hull
- * Processes each panel between stations and waterlines to build complete hull surface
+ * Processes each panel between stations and vertex rows to build complete hull surface
  */
 export function generateFaces(
   table: Types.QuoteTable,
   vertexMap: Record<string, number>,
-  keelVertices: number[]
+  keelVertices: number[],
+  rowCount: number,
+  seams: number[] = []
 ): number[] {
   const sortedStations = getSortedStations(table);
-  const sortedWaterlines = getSortedWaterlines(table);
   const stationCount = sortedStations.length;
-  const waterlineCount = sortedWaterlines.length;
 
   const indices: number[] = [];
   const hasKeel = table.metadata.hasKeel || false;
-  const hasChine = table.metadata.hasChine || false;
 
-  // Iterate through all station-waterline panels to generate faces
+  // Iterate through all station-row panels to generate faces
   for (let s = 0; s < stationCount - 1; s++) {
-    for (let w = 0; w < waterlineCount - 1; w++) {
+    for (let w = 0; w < rowCount - 1; w++) {
+      // The two copies of a knuckle row lie on top of each other
+      if (seams.includes(w)) continue;
       generatePanelFaces(
         indices,
         vertexMap,
         keelVertices,
         s,
         w,
-        hasKeel,
-        hasChine
+        hasKeel
       );
     }
   }
@@ -3,7 +3,7 @@ import { stateManager } from "../../../state_manager";
 import { generateColors } from "../../../color_generator";
 import { organizeGeometryGroups } from "../../../group_organizer";
 import { getSortedStations, getSortedWaterlines } from "../getters";
-import { interpolateHullGrid } from "../helpers";
+import { interpolateHullGrid, normalizeQuoteTable } from "../helpers";
 import { generateFaces } from "./faces";
 import { generateVertices } from "./vertices";
 import { generateWaterlineCurves } from "./waterlines";
@@ -11,17 +11,21 @@ import { generateStationCurves } from "./stations";
 import { generateDeckIndices, generateDeckPoints } from "./deck";
 import { generateTransomIndices, generateTransomPoints } from "./transom";
 import { generateBowIndices, generateBowPoints } from "./bow";
+import { generateKeelSolid } from "./keel";
 
 /**
  * Main hull geometry generation pipeline
  * Orchestrates the complete process from table data to 3D geometry with LOD support
  */
 export function generateStructuredHullGeometry(
-  table: Types.QuoteTable, 
+  sourceTable: Types.QuoteTable, 
   lodConfig: Types.LODConfig
 ): Types.HullGeometry {
   
   stateManager.Debug && console.log("=== Generating Hull Geometry ===");
+
+  // Put stations measured at differing heights onto common waterlines so faces match up
+  const table = normalizeQuoteTable(sourceTable);
   
   // Get sorted data from the original table for baseline metrics
   const sortedStations = getSortedStations(table);
@@ -40,9 +44,12 @@ export function generateStructuredHullGeometry(
 
   stateManager.Debug && console.log(`Refined: ${refinedStations.length} stations and ${refinedWaterlines.length} waterlines`);
 
+  // The keel bar is built from the table at base resolution; with one the shell bottom closes flat on the centreline
+  const keel = generateKeelSolid(table);
+
   // Generate core geometry components
-  const { vertices, vertexMap, keelVertices } = generateVertices(refinedData);
-  const indices = generateFaces(refinedData, vertexMap, keelVertices);
+  const { vertices, vertexMap, keelVertices, rowCount, seams } = generateVertices(refinedData, keel.points.length > 0);
+  const indices = generateFaces(refinedData, vertexMap, keelVertices, rowCount, seams);
 
   // Early validation to prevent processing invalid geometry
   if (vertices.length === 0 || indices.length === 0) {
@@ -128,6 +135,8 @@ export function generateStructuredHullGeometry(
     transomIndices: generateTransomIndices(generateTransomPoints(table)),
     bowPoints: generateBowPoints(table),
     bowIndices: generateBowIndices(generateBowPoints(table)),
+    keelPoints: keel.points,
+    keelIndices: keel.indices,
     colors
   };
 }
@@ -150,6 +159,8 @@ function createEmptyHullGeometry(): Types.HullGeometry {
     transomIndices: new Uint16Array(0),
     bowPoints: [],
     bowIndices: new Uint16Array(0),
+    keelPoints: [],
+    keelIndices: new Uint16Array(0),
     colors: new Float32Array(0)
   };
 }
\ No newline at end of file
@@ -1,3 +1,8 @@
+import * as Types from "../../../../types";
+import * as THREE from "three";
+import { stateManager } from "../../../state_manager";
+import { getSortedStations, getSortedWaterlines } from "../getters";
+import { getKeelJoinHeight, getStationAt } from "../../../physics/sections";
 import { areVerticesValid } from "../validators";
 
 export function generateKeelConnection(
@@ -27,4 +32,123 @@ export function generateKeelConnection(
   indices.push(bottomCenterLeft, keelRight, keelLeft);
   indices.push(bottomCenterLeftPort, keelLeft, keelRight);
   indices.push(bottomCenterLeftPort, keelRight, bottomCenterRightPort);
-}
\ No newline at end of file
+}
+
+/** Keel bar section at one position along the hull */
+interface KeelSample extends Types.KeelSection {
+  position: number;
+}
+
+/**
+ * Gets the keel bar sections from where the keel starts to where it ends
+ * Sampled at the start, at every station in between and at the end. A station with a keel section of its own
+ * sets the bar there, other stations take the profile's depth, width and rake where it gives them; the bar is
+ * interpolated linearly between them.
+ */
+export function getKeelSamples(table: Types.QuoteTable): KeelSample[] {
+  const stations = getSortedStations(table).filter(station => station.waterlines.length > 0);
+  const profile = table.metadata.keel;
+  const own = stations.filter(station => station.keel);
+  if (stations.length === 0 || (!profile && own.length === 0)) return [];
+
+  const first = stations[0].position;
+  const last = stations[stations.length - 1].position;
+  const start = Math.max(profile?.start ?? own[0].position, first);
+  const end = Math.min(profile?.end ?? own[own.length - 1].position, last);
+  if (!(end > start)) {
+    stateManager.Debug && console.warn(`⚠️ Keel runs from ${start} to ${end}; no keel generated`);
+    return [];
+  }
+
+  const defaults = profile?.depth !== undefined && profile?.width !== undefined
+    ? { depth: profile.depth, width: profile.width, rake: profile.rake }
+    : null;
+  const known = stations
+    .filter(station => station.position >= start && station.position <= end)
+    .flatMap(station => {
+      const section = station.keel ?? defaults;
+      return section ? [{ position: station.position, ...section }] : [];
+    });
+  if (known.length === 0) {
+    stateManager.Debug && console.warn("⚠️ Keel has no depth and width at any station; no keel generated");
+    return [];
+  }
+
+  const sectionAt = (position: number): KeelSample => {
+    const upper = known.findIndex(k => k.position >= position);
+    if (upper <= 0) return { ...known[upper === 0 ? 0 : known.length - 1], position };
+    const a = known[upper - 1];
+    const b = known[upper];
+    const t = (position - a.position) / (b.position - a.position);
+    const rakeA = a.rake ?? 0;
+    const rakeB = b.rake ?? 0;
+    return {
+      position,
+      depth: a.depth + (b.depth - a.depth) * t,
+      width: a.width + (b.width - a.width) * t,
+      rake: rakeA + (rakeB - rakeA) * t
+    };
+  };
+
+  const positions = [start, ...stations.map(s => s.position).filter(p => p > start && p < end), end];
+  return positions.map(sectionAt);
+}
+
+/**
+ * Generates the keel bar as a closed box below the hull bottom
+ * The bar has flat sides at ± half its width, its bottom lies its depth below the baseline (the lowest waterline)
+ * and its top follows the hull where the bottom is as wide as the bar, so it is joined to the shell without a gap.
+ * A raked section sweeps the bottom of the bar aft of its top. Sides, bottom and ends have their own vertices so
+ * the edges between them stay hard; the top is inside the hull and left open.
+ * @returns Points in hull-local coordinates and their triangle indices, empty when the table has no keel
+ */
+export function generateKeelSolid(table: Types.QuoteTable): { points: THREE.Vector3[]; indices: Uint16Array } {
+  const samples = getKeelSamples(table);
+  if (samples.length < 2) return { points: [], indices: new Uint16Array(0) };
+
+  const scale = stateManager.getUnits();
+  const stations = getSortedStations(table).filter(station => station.waterlines.length > 0);
+  const baseline = getSortedWaterlines(table)[0];
+
+  // Corners of every section: port top, port bottom, starboard bottom, starboard top
+  const sections = samples.map(sample => {
+    const station = getStationAt(stations, sample.position)!;
+    const halfWidth = sample.width / 2;
+    const bottom = baseline - sample.depth;
+    const sweep = Math.tan(THREE.MathUtils.degToRad(sample.rake ?? 0));
+    const corner = (x: number, top: number, y: number) =>
+      new THREE.Vector3(x * scale, y * scale, (sample.position + (top - y) * sweep) * scale);
+    const portTop = Math.max(getKeelJoinHeight(station, halfWidth, 'port'), bottom);
+    const starboardTop = Math.max(getKeelJoinHeight(station, halfWidth, 'starboard'), bottom);
+    return [
+      corner(-halfWidth, portTop, portTop),
+      corner(-halfWidth, portTop, bottom),
+      corner(halfWidth, starboardTop, bottom),
+      corner(halfWidth, starboardTop, starboardTop)
+    ];
+  });
+
+  const points: THREE.Vector3[] = [];
+  const indices: number[] = [];
+  // Corners counter-clockwise seen from outside
+  const addQuad = (corners: THREE.Vector3[]) => {
+    const base = points.length;
+    points.push(...corners.map(c => c.clone()));
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+  };
+
+  for (let i = 0; i + 1 < sections.length; i++) {
+    const [pt0, pb0, sb0, st0] = sections[i];
+    const [pt1, pb1, sb1, st1] = sections[i + 1];
+    addQuad([pb0, pb1, pt1, pt0]); // Port side
+    addQuad([sb1, sb0, st0, st1]); // Starboard side
+    addQuad([pb0, sb0, sb1, pb1]); // Bottom
+  }
+  const [pt0, pb0, sb0, st0] = sections[0];
+  const [ptN, pbN, sbN, stN] = sections[sections.length - 1];
+  addQuad([pb0, pt0, st0, sb0]); // Forward end
+  addQuad([sbN, stN, ptN, pbN]); // Aft end
+
+  stateManager.Debug && console.log(`⚓ Keel bar from ${samples[0].position} to ${samples[samples.length - 1].position}: ${indices.length / 3} faces`);
+  return { points, indices: new Uint16Array(indices) };
+}
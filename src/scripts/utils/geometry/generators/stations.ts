@@ -1,7 +1,7 @@
 import * as Types from "../../../../types";
 import { stateManager } from "../../../state_manager";
 import * as THREE from "three";
-import { getSortedStations, getSortedWaterlines } from "../getters";
+import { getSortedStations, getStationOffsets } from "../getters";
 
 /**
  * Generates 3D station curves from hull table data
@@ -10,7 +10,6 @@ import { getSortedStations, getSortedWaterlines } from "../getters";
 export function generateStationCurves(table: Types.QuoteTable): { [stationId: string]: THREE.Vector3[] } {
   const scale = stateManager.getUnits();
   const sortedStations = getSortedStations(table);
-  const sortedWaterlines = getSortedWaterlines(table);
   const stationPoints: { [stationId: string]: THREE.Vector3[] } = {};
 
   // Process each station to create vertical cross-sectional profiles
@@ -18,22 +17,18 @@ export function generateStationCurves(table: Types.QuoteTable): { [stationId: st
     const points: THREE.Vector3[] = [];
     const zPos = station.position * scale; // Fixed longitudinal position for this station
 
-    // Build station profile from bottom to top waterlines
-    sortedWaterlines.forEach(waterlineHeight => {
-      const wlData = station.waterlines.find(wl => wl.height === waterlineHeight);
-      
-      if (wlData) {
-        const yPos = waterlineHeight * scale; // Vertical position
-        const xPort = wlData.halfBreadthPort * scale;
-        const xStarboard = wlData.halfBreadthStarboard !== undefined 
-          ? wlData.halfBreadthStarboard * scale 
-          : xPort; // Use port value for symmetric hulls
+    // Build station profile from bottom to top, through its knuckles so hard edges keep their corners
+    getStationOffsets(station).forEach(wlData => {
+      const yPos = wlData.height * scale; // Vertical position
+      const xPort = wlData.halfBreadthPort * scale;
+      const xStarboard = wlData.halfBreadthStarboard !== undefined 
+        ? wlData.halfBreadthStarboard * scale 
+        : xPort; // Use port value for symmetric hulls
 
-        // Add port point (negative X) then starboard point (positive X)
-        // This creates a complete cross-section at this waterline level
-        points.push(new THREE.Vector3(-xPort, yPos, zPos));
-        points.push(new THREE.Vector3(xStarboard, yPos, zPos));
-      }
+      // Add port point (negative X) then starboard point (positive X)
+      // This creates a complete cross-section at this height
+      points.push(new THREE.Vector3(-xPort, yPos, zPos));
+      points.push(new THREE.Vector3(xStarboard, yPos, zPos));
     });
 
     // Store station points using position as key for easy retrieval
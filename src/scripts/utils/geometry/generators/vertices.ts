@@ -1,44 +1,52 @@
 import * as Types from "../../../../types";
 import { stateManager } from "../../../state_manager";
 import * as THREE from "three";
-import { getSortedStations, getSortedWaterlines } from "../getters";
+import { getHullRowLayout } from "./chine";
 
 /**
  * Generates 3D vertices from hull table data for mesh construction
- * Creates starboard/port vertices, keel vertices, and chine vertices as needed
+ * Creates starboard/port vertices and keel vertices, with knuckle rows doubled where the surface breaks
+ * @param hasKeelSolid - A keel bar is generated below the hull, so the keel vertex closes the bottom without dropping below it
  */
 export function generateVertices(
-  table: Types.QuoteTable
+  table: Types.QuoteTable,
+  hasKeelSolid = false
 ): Types.VertexGenerationResult {
 
   // Extract hull configuration from metadata
   const hasKeel = table.metadata.hasKeel || false;
-  const hasChine = table.metadata.hasChine || false;
   const scale = stateManager.getUnits();
 
   const vertexMap: Record<string, number> = {};
   const allVertices: THREE.Vector3[] = [];
   const keelVertices: number[] = [];
 
-  const sortedStations = getSortedStations(table);
-  const sortedWaterlines = getSortedWaterlines(table);
+  // Vertex rows of each station; knuckles take two rows so the surface breaks along them
+  const layout = getHullRowLayout(table);
+  const rowCount = Math.max(0, ...layout.rows.map(rows => rows.length));
 
-  stateManager.Debug && console.log(`Generating vertices from ${sortedStations.length} stations`);
+  stateManager.Debug && console.log(`Generating vertices from ${layout.positions.length} stations`);
 
   // Process each station (longitudinal sections)
-  sortedStations.forEach((station, sIdx) => {
-    const zPos = station.position * scale; // Longitudinal position (bow to stern)
+  layout.positions.forEach((position, sIdx) => {
+    const zPos = position * scale; // Longitudinal position (bow to stern)
 
-    // Process each waterline (vertical sections) at this station
-    sortedWaterlines.forEach((waterlineHeight, wIdx) => {
-      // Find waterline data for this specific height
-      const wlData = station.waterlines.find(wl => wl.height === waterlineHeight);
+    // Process each row (vertical sections) at this station
+    layout.rows[sIdx].forEach((wlData, wIdx) => {
       if (!wlData) {
-        stateManager.Debug && console.warn(`Missing waterline data for station ${station.position}, height ${waterlineHeight}`);
+        stateManager.Debug && console.warn(`Missing waterline data for station ${position}, row ${wIdx}`);
         return;
       }
 
-      const yPos = waterlineHeight * scale; // Vertical position
+      // Upper copy of a knuckle the station does not break at shares the lower copy's vertices
+      const seam = layout.seams.indexOf(wIdx - 1);
+      if (seam >= 0 && !layout.hardEdges[sIdx][seam]) {
+        vertexMap[`${sIdx}_${wIdx}_star`] = vertexMap[`${sIdx}_${wIdx - 1}_star`];
+        vertexMap[`${sIdx}_${wIdx}_port`] = vertexMap[`${sIdx}_${wIdx - 1}_port`];
+        return;
+      }
+
+      const yPos = wlData.height * scale; // Vertical position
 
       // Handle symmetric hulls (use port value for starboard if not specified)
       const halfBreadthPort = wlData.halfBreadthPort;
@@ -51,13 +59,13 @@ export function generateVertices(
 
       // Validate numerical values to prevent corrupted geometry
       if ([xPort, xStarboard, yPos, zPos].some(isNaN)) {
-        stateManager.Debug && console.error(`Invalid vertex data for station ${station.position}, height ${waterlineHeight}`);
+        stateManager.Debug && console.error(`Invalid vertex data for station ${position}, height ${wlData.height}`);
         return;
       }
 
       // Add keel vertex at bottom waterline for hulls with keel structure
       if (hasKeel && wIdx === 0) {
-        const keelVertex = new THREE.Vector3(0, yPos - (0.05 * scale), zPos);
+        const keelVertex = new THREE.Vector3(0, hasKeelSolid ? yPos : yPos - (0.05 * scale), zPos);
         const keelIndex = allVertices.length;
         allVertices.push(keelVertex);
         keelVertices.push(keelIndex);
@@ -76,24 +84,9 @@ export function generateVertices(
       // Store vertex indices for panel construction
       vertexMap[`${sIdx}_${wIdx}_star`] = starboardIndex;
       vertexMap[`${sIdx}_${wIdx}_port`] = portIndex;
-
-      // Add chine vertices for hulls with chine structure (bottom waterline only)
-      if (hasChine && wIdx === 0) {
-        // Chine vertices are inset from the hull surface for curved transitions
-        const chineStarboard = new THREE.Vector3(xStarboard * 0.8, yPos, zPos);
-        const chineStarboardIndex = allVertices.length;
-        allVertices.push(chineStarboard);
-
-        const chinePort = new THREE.Vector3(-xPort * 0.8, yPos, zPos);
-        const chinePortIndex = allVertices.length;
-        allVertices.push(chinePort);
-
-        vertexMap[`${sIdx}_${wIdx}_chine_star`] = chineStarboardIndex;
-        vertexMap[`${sIdx}_${wIdx}_chine_port`] = chinePortIndex;
-      }
     });
   });
 
   stateManager.Debug && console.log(`Generated ${allVertices.length} vertices`);
-  return { vertices: allVertices, vertexMap, keelVertices };
-}
\ No newline at end of file
+  return { vertices: allVertices, vertexMap, keelVertices, rowCount, seams: layout.seams };
+}
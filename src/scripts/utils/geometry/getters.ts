@@ -20,26 +20,6 @@ export function getPanelVertices(vertexMap: Record<string, number>, s: number, w
   };
 }
 
-/**
- * Gets vertex indices for chine connections between hull panels
- * Chine vertices represent the curved intersections between hull sections
- */
-export function getChineVertices(vertexMap: Record<string, number>, s: number, w: number) {
-  return {
-    // Starboard chine vertices (curved edge connections)
-    chineTopLeft: vertexMap[`${s}_${w}_chine_star`],
-    chineTopRight: vertexMap[`${s + 1}_${w}_chine_star`],
-    chineBottomLeft: vertexMap[`${s}_${w + 1}_star`],
-    chineBottomRight: vertexMap[`${s + 1}_${w + 1}_star`],
-    
-    // Port chine vertices (curved edge connections)
-    chineTopLeftPort: vertexMap[`${s}_${w}_chine_port`],
-    chineTopRightPort: vertexMap[`${s + 1}_${w}_chine_port`],
-    chineBottomLeftPort: vertexMap[`${s}_${w + 1}_port`],
-    chineBottomRightPort: vertexMap[`${s + 1}_${w + 1}_port`]
-  };
-}
-
 /**
  * Gets half-breadth measurement for specific station, waterline, and hull side
  * Returns starboard measurement if available, otherwise defaults to port (symmetric hulls)
@@ -69,11 +49,12 @@ export function getWaterlineData(table: Types.QuoteTable, station: number, water
 
 /**
  * Converts measurement units to meters for consistent 3D scaling
- * Returns scale factor: mm→0.001, ft→0.3048, m→1
+ * Returns scale factor: mm→0.001, ft→0.3048, in→0.0254, m→1
  */
 export function getUnitScale(unit: Types.Units): number {
   return unit === 'mm' ? 0.001 :
-    unit === 'ft' ? 0.3048 : 1;
+    unit === 'ft' ? 0.3048 :
+    unit === 'in' ? 0.0254 : 1;
 }
 
 /**
@@ -96,4 +77,16 @@ export function getSortedWaterlines(table: Types.QuoteTable): number[] {
     });
   });
   return Array.from(waterlineSet).sort((a, b) => a - b);
-}
\ No newline at end of file
+}
+
+/**
+ * Gets the offsets of a station and its knuckle points in one list, sorted from the keel up
+ * A knuckle replaces a waterline offset at the same height
+ */
+export function getStationOffsets(station: Types.Station): (Types.WaterlineData | Types.KnucklePoint)[] {
+  const knuckles = station.knuckles ?? [];
+  return [
+    ...station.waterlines.filter(wl => !knuckles.some(k => k.height === wl.height)),
+    ...knuckles
+  ].sort((a, b) => a.height - b.height);
+}
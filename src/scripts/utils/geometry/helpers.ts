@@ -1,6 +1,8 @@
-import { type LODConfig, type QuoteTable, type Station, type WaterlineData } from "../../../types"
+import { type GridNormalizationOptions, type InterpolationScheme, type KnucklePoint, type LODConfig, type QuoteTable, type Station, type WaterlineData } from "../../../types"
 import * as THREE from "three"
-import { getSortedStations, getSortedWaterlines } from "./getters";
+import { stateManager } from "../../state_manager";
+import { getSortedStations, getSortedWaterlines, getStationOffsets } from "./getters";
+import { createInterpolator } from "./splines";
 
 /**
  * Sorts points in circular order around their centroid
@@ -130,7 +132,10 @@ function pointInTriangle(
 
 /**
  * Interpolates hull grid data to increase resolution for smoother geometry
- * Uses linear interpolation between stations and waterlines
+ * Each station curve is first resampled at the dense waterlines, then each waterline along the dense stations.
+ * With enableSmoothing the curves follow config.interpolation (monotone cubic by default), otherwise straight
+ * lines join the offsets. Half-breadths are kept non-negative where a spline dips below the centreline.
+ * Station curves are not smoothed across knuckles, and every knuckle line is interpolated along the hull on its own.
  */
 export function interpolateHullGrid(
   table: QuoteTable,
@@ -141,15 +146,18 @@ export function interpolateHullGrid(
     return table;
   }
 
-  const sortedStations = getSortedStations(table);
-  const sortedWaterlines = getSortedWaterlines(table);
+  // Splines need every station at the same heights
+  const grid = normalizeQuoteTable(table);
+  const sortedStations = getSortedStations(grid);
+  const sortedWaterlines = getSortedWaterlines(grid);
   
   if (sortedStations.length === 0 || sortedWaterlines.length === 0) {
     console.warn('No valid stations or waterlines found for interpolation');
     return table;
   }
 
-  console.log(`Interpolating with LOD: stations ${config.stationMultiplier}x, waterlines ${config.waterlineMultiplier}x`);
+  const scheme: InterpolationScheme = config.enableSmoothing ? config.interpolation ?? 'monotone-cubic' : 'linear';
+  stateManager.Debug && console.log(`Interpolating with LOD: stations ${config.stationMultiplier}x, waterlines ${config.waterlineMultiplier}x, ${scheme}`);
 
   const newTable: QuoteTable = {
     metadata: { ...table.metadata },
@@ -182,117 +190,241 @@ export function interpolateHullGrid(
     denseWaterlines.push(globalPos);
   }
 
-  // Process each new station position
+  // Starboard offsets are carried through whenever the table has any
+  const hasStarboard = sortedStations.some(station => station.waterlines.some(wl => wl.halfBreadthStarboard !== undefined));
+  const sides: ('port' | 'starboard')[] = hasStarboard ? ['port', 'starboard'] : ['port'];
+  const offsetOf = (wl: WaterlineData | undefined, side: 'port' | 'starboard') =>
+    wl === undefined ? 0 : side === 'starboard' ? wl.halfBreadthStarboard ?? wl.halfBreadthPort : wl.halfBreadthPort;
+
+  // Along each original station: half-breadth against height, sampled at the dense waterlines
+  // A repeated station position would give the splines a zero-length interval, so only the first is used
+  const curveStations = sortedStations.filter((station, i) => i === 0 || station.position !== sortedStations[i - 1].position);
+  const stationPositions = curveStations.map(station => station.position);
+  // Knuckles split a station into pieces that are interpolated separately, so the curve keeps its corners
+  const verticalPass = sides.map(side => curveStations.map(station => {
+    const curve = station.knuckles?.length
+      ? createSectionInterpolator(station, side, scheme)
+      : createInterpolator(
+        sortedWaterlines,
+        sortedWaterlines.map(height => offsetOf(station.waterlines.find(wl => wl.height === height), side)),
+        scheme
+      );
+    return denseWaterlines.map(curve);
+  }));
+
+  // Along each dense waterline: half-breadth against station position, sampled at the dense stations
+  const horizontalPass = verticalPass.map(columns => denseWaterlines.map((_, w) =>
+    createInterpolator(stationPositions, columns.map(column => column[w]), scheme)
+  ));
+
+  const knuckleCurves = createKnuckleInterpolators(curveStations, hasStarboard, scheme);
+
   denseStations.forEach(stationPos => {
     const newStation: Station = {
       position: stationPos,
-      waterlines: []
+      waterlines: denseWaterlines.map((height, w) => {
+        const [port, starboard] = horizontalPass.map(curves => Math.max(0, curves[w](stationPos)));
+        return { height, halfBreadthPort: port, halfBreadthStarboard: starboard };
+      })
     };
+    const knuckles = knuckleCurves.flatMap(curve => curve(stationPos) ?? []);
+    if (knuckles.length > 0) newStation.knuckles = knuckles;
+    newTable.stations.push(newStation);
+  });
 
-    // Find bounding stations for interpolation
-    let lowerStation: Station | null = null;
-    let upperStation: Station | null = null;
-    let stationRatio = 0;
-
-    // Locate the two stations that bracket the current position
-    for (let i = 0; i < sortedStations.length - 1; i++) {
-      if (stationPos >= sortedStations[i].position && stationPos <= sortedStations[i + 1].position) {
-        lowerStation = sortedStations[i];
-        upperStation = sortedStations[i + 1];
-        stationRatio = (stationPos - lowerStation.position) / (upperStation.position - lowerStation.position);
-        break;
-      }
-    }
+  stateManager.Debug && console.log(`${scheme === 'linear' ? 'Linear' : 'Spline'} interpolation completed`);
+  return newTable;
+}
 
-    // Fallback to nearest station if position is outside range
-    if (!lowerStation || !upperStation) {
-      let nearestStation = sortedStations[0];
-      let minDist = Math.abs(stationPos - nearestStation.position);
-      
-      sortedStations.forEach(station => {
-        const dist = Math.abs(stationPos - station.position);
-        if (dist < minDist) {
-          minDist = dist;
-          nearestStation = station;
-        }
-      });
-      
-      lowerStation = nearestStation;
-      upperStation = nearestStation;
-      stationRatio = 0;
-    }
+/**
+ * Builds half-breadth against height along a station that has knuckles
+ * Each piece between knuckles gets its own curve, so smoothing never rounds off the hard edge
+ */
+function createSectionInterpolator(station: Station, side: 'port' | 'starboard', scheme: InterpolationScheme): (height: number) => number {
+  const offsets = getStationOffsets(station);
+  const isKnuckle = (wl: WaterlineData) => station.knuckles!.includes(wl as KnucklePoint);
+  const valueOf = (wl: WaterlineData) => side === 'starboard' ? wl.halfBreadthStarboard ?? wl.halfBreadthPort : wl.halfBreadthPort;
+
+  // A knuckle ends one piece and starts the next
+  const pieces: WaterlineData[][] = [[]];
+  offsets.forEach((wl, i) => {
+    pieces[pieces.length - 1].push(wl);
+    if (isKnuckle(wl) && i > 0 && i < offsets.length - 1) pieces.push([wl]);
+  });
+  const curves = pieces.map(piece => ({
+    top: piece[piece.length - 1].height,
+    curve: createInterpolator(piece.map(wl => wl.height), piece.map(valueOf), scheme)
+  }));
 
-    // Interpolate waterline data for each dense waterline
-    denseWaterlines.forEach(waterlineHeight => {
-      // Find waterline data in bounding stations
-      const lowerWlData = lowerStation!.waterlines.find(wl => Math.abs(wl.height - waterlineHeight) < 0.001);
-      const upperWlData = upperStation!.waterlines.find(wl => Math.abs(wl.height - waterlineHeight) < 0.001);
-
-      let halfBreadthPort = 0;
-      let halfBreadthStarboard: number | undefined = undefined;
-
-      if (lowerWlData && upperWlData) {
-        // Linear interpolation between stations
-        halfBreadthPort = lowerWlData.halfBreadthPort + 
-          (upperWlData.halfBreadthPort - lowerWlData.halfBreadthPort) * stationRatio;
-        
-        if (lowerWlData.halfBreadthStarboard !== undefined && upperWlData.halfBreadthStarboard !== undefined) {
-          halfBreadthStarboard = lowerWlData.halfBreadthStarboard + 
-            (upperWlData.halfBreadthStarboard - lowerWlData.halfBreadthStarboard) * stationRatio;
-        }
-      } else if (lowerWlData) {
-        // Use lower station data if upper not available
-        halfBreadthPort = lowerWlData.halfBreadthPort;
-        halfBreadthStarboard = lowerWlData.halfBreadthStarboard;
-      } else if (upperWlData) {
-        // Use upper station data if lower not available
-        halfBreadthPort = upperWlData.halfBreadthPort;
-        halfBreadthStarboard = upperWlData.halfBreadthStarboard;
-      } else {
-        // Bilinear interpolation when waterline doesn't exist in either station
-        const lowerWaterlines = getSortedWaterlines(table);
-        let lowerWl = 0, upperWl = 0;
-        let waterlineRatio = 0;
-        
-        // Find bounding waterlines
-        for (let i = 0; i < lowerWaterlines.length - 1; i++) {
-          if (waterlineHeight >= lowerWaterlines[i] && waterlineHeight <= lowerWaterlines[i + 1]) {
-            lowerWl = lowerWaterlines[i];
-            upperWl = lowerWaterlines[i + 1];
-            waterlineRatio = (waterlineHeight - lowerWl) / (upperWl - lowerWl);
-            break;
-          }
-        }
-        
-        // Get waterline data for all four corners of interpolation grid
-        const lowerStationLowerWl = lowerStation!.waterlines.find(wl => Math.abs(wl.height - lowerWl) < 0.001);
-        const lowerStationUpperWl = lowerStation!.waterlines.find(wl => Math.abs(wl.height - upperWl) < 0.001);
-        const upperStationLowerWl = upperStation!.waterlines.find(wl => Math.abs(wl.height - lowerWl) < 0.001);
-        const upperStationUpperWl = upperStation!.waterlines.find(wl => Math.abs(wl.height - upperWl) < 0.001);
-        
-        if (lowerStationLowerWl && lowerStationUpperWl && upperStationLowerWl && upperStationUpperWl) {
-          // Perform bilinear interpolation
-          const lowerStationValue = lowerStationLowerWl.halfBreadthPort + 
-            (lowerStationUpperWl.halfBreadthPort - lowerStationLowerWl.halfBreadthPort) * waterlineRatio;
-          const upperStationValue = upperStationLowerWl.halfBreadthPort + 
-            (upperStationUpperWl.halfBreadthPort - upperStationLowerWl.halfBreadthPort) * waterlineRatio;
-          
-          halfBreadthPort = lowerStationValue + (upperStationValue - lowerStationValue) * stationRatio;
-        }
-      }
+  return (height: number) => (curves.find(piece => height <= piece.top) ?? curves[curves.length - 1]).curve(height);
+}
 
-      newStation.waterlines.push({
-        height: waterlineHeight,
-        halfBreadthPort,
-        halfBreadthStarboard
-      });
-    });
+/**
+ * Builds each knuckle line along the hull, from the stations that have it
+ * Knuckles are matched by their order from the keel up; a curve gives null outside the stations that have its knuckle
+ */
+function createKnuckleInterpolators(
+  stations: Station[],
+  hasStarboard: boolean,
+  scheme: InterpolationScheme
+): ((position: number) => KnucklePoint | null)[] {
+  const count = Math.max(0, ...stations.map(station => station.knuckles?.length ?? 0));
+
+  return Array.from({ length: count }, (_, k) => {
+    const carriers = stations.filter(station => (station.knuckles?.length ?? 0) > k);
+    const points = carriers.map(station => [...station.knuckles!].sort((a, b) => a.height - b.height)[k]);
+    const positions = carriers.map(station => station.position);
+    const along = (values: number[]) => createInterpolator(positions, values, scheme);
+
+    const height = along(points.map(p => p.height));
+    const port = along(points.map(p => p.halfBreadthPort));
+    const starboard = along(points.map(p => p.halfBreadthStarboard ?? p.halfBreadthPort));
+    const first = positions[0];
+    const last = positions[positions.length - 1];
+
+    return (position: number) => {
+      if (position < first - 1e-9 || position > last + 1e-9) return null;
+      const knuckle: KnucklePoint = { height: height(position), halfBreadthPort: Math.max(0, port(position)) };
+      if (hasStarboard) knuckle.halfBreadthStarboard = Math.max(0, starboard(position));
+      if (points[0].type) knuckle.type = points[0].type;
+      return knuckle;
+    };
+  });
+}
 
-    newTable.stations.push(newStation);
+/**
+ * Checks whether every station is measured at exactly the same waterline heights
+ * The geometry generators match heights with ===, so only such grids mesh without holes
+ */
+export function isRegularGrid(table: QuoteTable): boolean {
+  const heights = getSortedWaterlines(table);
+  return table.stations.every(station =>
+    station.waterlines.length === heights.length &&
+    heights.every(height => station.waterlines.some(wl => wl.height === height))
+  );
+}
+
+/**
+ * Merges heights that lie within tolerance of each other into their mean
+ * Heights must be sorted ascending
+ */
+function mergeCloseHeights(heights: number[], tolerance: number): number[] {
+  const clusters: number[][] = [];
+  heights.forEach(height => {
+    const last = clusters[clusters.length - 1];
+    if (last && height - last[0] <= tolerance) last.push(height);
+    else clusters.push([height]);
   });
+  return clusters.map(cluster => cluster.reduce((sum, h) => sum + h, 0) / cluster.length);
+}
 
-  console.log('Linear interpolation completed');
-  return newTable;
+/**
+ * Reads a station's half-breadths at any height by linear interpolation along its own waterlines
+ * Waterlines must be sorted by height; heights outside the measured range take the nearest measured waterline
+ */
+export function interpolateStationAtHeight(waterlines: WaterlineData[], height: number): WaterlineData {
+  const starboardOf = (wl: WaterlineData) => wl.halfBreadthStarboard ?? wl.halfBreadthPort;
+  const upper = waterlines.findIndex(wl => wl.height >= height);
+
+  if (upper <= 0) {
+    const nearest = waterlines[upper === 0 ? 0 : waterlines.length - 1];
+    return { height, halfBreadthPort: nearest.halfBreadthPort, halfBreadthStarboard: starboardOf(nearest) };
+  }
+
+  const a = waterlines[upper - 1];
+  const b = waterlines[upper];
+  const t = b.height > a.height ? (height - a.height) / (b.height - a.height) : 0;
+  return {
+    height,
+    halfBreadthPort: a.halfBreadthPort + (b.halfBreadthPort - a.halfBreadthPort) * t,
+    halfBreadthStarboard: starboardOf(a) + (starboardOf(b) - starboardOf(a)) * t
+  };
+}
+
+/**
+ * Resamples an irregular offset table onto common waterline heights, and optionally equal station spacing
+ * Each station is interpolated along its own curve, so stations measured at slightly different heights
+ * end up on one grid. Knuckle points are kept as they are. Regular grids without station spacing are returned unchanged.
+ */
+export function normalizeQuoteTable(table: QuoteTable, options: GridNormalizationOptions = {}): QuoteTable {
+  const sortedStations = getSortedStations(table).filter(station => station.waterlines.length > 0);
+  if (sortedStations.length === 0) return table;
+  if (!options.waterlines && !options.stationSpacing && isRegularGrid(table)) return table;
+
+  const measured = getSortedWaterlines(table);
+  const depth = measured[measured.length - 1] - measured[0];
+  const tolerance = options.tolerance ?? depth * 0.005;
+  const heights = options.waterlines
+    ? [...new Set(options.waterlines)].sort((a, b) => a - b)
+    : mergeCloseHeights(measured, tolerance);
+
+  // Starboard offsets are kept only where the table has them
+  const hasStarboard = table.stations.some(station => station.waterlines.some(wl => wl.halfBreadthStarboard !== undefined));
+  const resampleStation = (station: Station): Station => {
+    // Knuckles stay where they are and shape the curve the common heights are read from
+    const waterlines = getStationOffsets(station);
+    return {
+      position: station.position,
+      waterlines: heights.map(height => {
+        const wl = interpolateStationAtHeight(waterlines, height);
+        return hasStarboard ? wl : { height, halfBreadthPort: wl.halfBreadthPort };
+      }),
+      ...(station.knuckles ? { knuckles: station.knuckles } : {}),
+      ...(station.keel ? { keel: station.keel } : {})
+    };
+  };
+
+  let stations = sortedStations.map(resampleStation);
+
+  // Equal spacing interpolates between the resampled stations, which now share their heights
+  if (options.stationSpacing && options.stationSpacing > 0 && stations.length > 1) {
+    const start = stations[0].position;
+    const end = stations[stations.length - 1].position;
+    const count = Math.max(Math.round((end - start) / options.stationSpacing), 1);
+    const source = stations;
+
+    stations = Array.from({ length: count + 1 }, (_, i) => {
+      const position = i === count ? end : start + (end - start) * i / count;
+      const upper = Math.min(Math.max(source.findIndex(s => s.position >= position), 1), source.length - 1);
+      const a = source[upper - 1];
+      const b = source[upper];
+      const t = b.position > a.position ? THREE.MathUtils.clamp((position - a.position) / (b.position - a.position), 0, 1) : 0;
+
+      const lerpOffset = <T extends WaterlineData>(wlA: T, wlB: T): T => {
+        const waterline: T = {
+          ...wlA,
+          height: wlA.height + (wlB.height - wlA.height) * t,
+          halfBreadthPort: wlA.halfBreadthPort + (wlB.halfBreadthPort - wlA.halfBreadthPort) * t
+        };
+        if (wlA.halfBreadthStarboard !== undefined && wlB.halfBreadthStarboard !== undefined) {
+          waterline.halfBreadthStarboard = wlA.halfBreadthStarboard + (wlB.halfBreadthStarboard - wlA.halfBreadthStarboard) * t;
+        }
+        return waterline;
+      };
+
+      // Knuckles both neighbours have are carried across, matched by order from the keel up
+      const knucklesA = [...a.knuckles ?? []].sort((x, y) => x.height - y.height);
+      const knucklesB = [...b.knuckles ?? []].sort((x, y) => x.height - y.height);
+      const knuckles = knucklesA.slice(0, knucklesB.length).map((k, i) => lerpOffset(k, knucklesB[i]));
+
+      // Keel sections likewise where both neighbours have one
+      const keel = a.keel && b.keel ? {
+        depth: a.keel.depth + (b.keel.depth - a.keel.depth) * t,
+        width: a.keel.width + (b.keel.width - a.keel.width) * t,
+        rake: (a.keel.rake ?? 0) + ((b.keel.rake ?? 0) - (a.keel.rake ?? 0)) * t
+      } : undefined;
+
+      return {
+        position,
+        waterlines: a.waterlines.map((wlA, w) => lerpOffset(wlA, b.waterlines[w])),
+        ...(knuckles.length > 0 ? { knuckles } : {}),
+        ...(keel ? { keel } : {})
+      };
+    });
+  }
+
+  stateManager.Debug && console.log(`📐 Normalized grid: ${stations.length} stations on ${heights.length} common waterlines`);
+  return { metadata: { ...table.metadata }, stations };
 }
 
 /**
@@ -0,0 +1,162 @@
+import type { InterpolationScheme } from "../../../types";
+
+// Centripetal parameterization exponent; 0.5 avoids cusps and self-intersections within a segment
+const CENTRIPETAL_ALPHA = 0.5;
+const BISECTION_STEPS = 40;
+
+/** Index of the interval [xs[i], xs[i + 1]] holding x, clamped to the first and last interval */
+function findInterval(xs: number[], x: number): number {
+  let low = 0;
+  let high = xs.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (xs[mid] <= x) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/** Cubic Hermite segment through (x0, y0) and (x1, y1) with end slopes m0 and m1 */
+function hermite(x0: number, x1: number, y0: number, y1: number, m0: number, m1: number, x: number): number {
+  const h = x1 - x0;
+  const t = (x - x0) / h;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (2 * t3 - 3 * t2 + 1) * y0
+    + (t3 - 2 * t2 + t) * h * m0
+    + (-2 * t3 + 3 * t2) * y1
+    + (t3 - t2) * h * m1;
+}
+
+/**
+ * Second derivatives of the natural cubic spline through the points
+ * Solves the tridiagonal system with zero curvature at both ends
+ */
+function getNaturalSecondDerivatives(xs: number[], ys: number[]): number[] {
+  const n = xs.length;
+  const second = new Array(n).fill(0);
+  const c = new Array(n).fill(0);
+  const d = new Array(n).fill(0);
+
+  // Forward sweep of the Thomas algorithm over the interior points
+  for (let i = 1; i < n - 1; i++) {
+    const hPrev = xs[i] - xs[i - 1];
+    const hNext = xs[i + 1] - xs[i];
+    const diagonal = 2 * (hPrev + hNext) - hPrev * c[i - 1];
+    c[i] = hNext / diagonal;
+    d[i] = (6 * ((ys[i + 1] - ys[i]) / hNext - (ys[i] - ys[i - 1]) / hPrev) - hPrev * d[i - 1]) / diagonal;
+  }
+  for (let i = n - 2; i > 0; i--) {
+    second[i] = d[i] - c[i] * second[i + 1];
+  }
+  return second;
+}
+
+/**
+ * Slopes of the monotone cubic through the points (Fritsch-Carlson)
+ * Flat where the data turns, and limited elsewhere so no segment overshoots its end values
+ */
+function getMonotoneSlopes(xs: number[], ys: number[]): number[] {
+  const n = xs.length;
+  const secants = xs.slice(0, -1).map((x, i) => (ys[i + 1] - ys[i]) / (xs[i + 1] - x));
+  const slopes = xs.map((_, i) => {
+    if (i === 0) return secants[0];
+    if (i === n - 1) return secants[n - 2];
+    return secants[i - 1] * secants[i] <= 0 ? 0 : (secants[i - 1] + secants[i]) / 2;
+  });
+
+  secants.forEach((secant, i) => {
+    if (secant === 0) {
+      slopes[i] = 0;
+      slopes[i + 1] = 0;
+      return;
+    }
+    const a = slopes[i] / secant;
+    const b = slopes[i + 1] / secant;
+    const length = Math.hypot(a, b);
+    if (length > 3) {
+      slopes[i] = 3 * a / length * secant;
+      slopes[i + 1] = 3 * b / length * secant;
+    }
+  });
+  return slopes;
+}
+
+/**
+ * Evaluates the centripetal Catmull-Rom segment between points i and i + 1 at abscissa x
+ * The curve is parametric, so its parameter is found by bisection on x; the ends are extended by reflection
+ */
+function evaluateCatmullRom(xs: number[], ys: number[], i: number, x: number): number {
+  const n = xs.length;
+  const point = (k: number): [number, number] => {
+    if (k < 0) return [2 * xs[0] - xs[1], 2 * ys[0] - ys[1]];
+    if (k > n - 1) return [2 * xs[n - 1] - xs[n - 2], 2 * ys[n - 1] - ys[n - 2]];
+    return [xs[k], ys[k]];
+  };
+  const p = [point(i - 1), point(i), point(i + 1), point(i + 2)];
+
+  // Knot spacing grows with the square root of the chord length
+  const t = [0];
+  for (let k = 1; k < 4; k++) {
+    const chord = Math.hypot(p[k][0] - p[k - 1][0], p[k][1] - p[k - 1][1]);
+    t.push(t[k - 1] + Math.max(Math.pow(chord, CENTRIPETAL_ALPHA), 1e-12));
+  }
+
+  // Barry-Goldman pyramid for one coordinate at parameter u
+  const lerp = (a: number, b: number, ta: number, tb: number, u: number) => ((tb - u) * a + (u - ta) * b) / (tb - ta);
+  const evaluate = (axis: 0 | 1, u: number) => {
+    const a1 = lerp(p[0][axis], p[1][axis], t[0], t[1], u);
+    const a2 = lerp(p[1][axis], p[2][axis], t[1], t[2], u);
+    const a3 = lerp(p[2][axis], p[3][axis], t[2], t[3], u);
+    const b1 = lerp(a1, a2, t[0], t[2], u);
+    const b2 = lerp(a2, a3, t[1], t[3], u);
+    return lerp(b1, b2, t[1], t[2], u);
+  };
+
+  let low = t[1];
+  let high = t[2];
+  for (let step = 0; step < BISECTION_STEPS; step++) {
+    const mid = (low + high) / 2;
+    if (evaluate(0, mid) < x) low = mid;
+    else high = mid;
+  }
+  return evaluate(1, (low + high) / 2);
+}
+
+/**
+ * Builds a function through the points (xs[i], ys[i]) with the given scheme
+ * xs must be strictly increasing; outside their range the end values are held.
+ * 'catmull-rom' is centripetal, 'natural-cubic' has zero curvature at the ends and
+ * 'monotone-cubic' never overshoots between neighbouring points.
+ */
+export function createInterpolator(xs: number[], ys: number[], scheme: InterpolationScheme): (x: number) => number {
+  if (xs.length === 0) return () => 0;
+  if (xs.length === 1) return () => ys[0];
+
+  const second = scheme === 'natural-cubic' ? getNaturalSecondDerivatives(xs, ys) : [];
+  const slopes = scheme === 'monotone-cubic' ? getMonotoneSlopes(xs, ys) : [];
+
+  return (x: number) => {
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[xs.length - 1]) return ys[ys.length - 1];
+
+    const i = findInterval(xs, x);
+    const x0 = xs[i];
+    const x1 = xs[i + 1];
+    const h = x1 - x0;
+
+    switch (scheme) {
+      case 'catmull-rom':
+        return evaluateCatmullRom(xs, ys, i, x);
+      case 'natural-cubic': {
+        const a = (x1 - x) / h;
+        const b = (x - x0) / h;
+        return a * ys[i] + b * ys[i + 1] + ((a * a * a - a) * second[i] + (b * b * b - b) * second[i + 1]) * h * h / 6;
+      }
+      case 'monotone-cubic':
+        return hermite(x0, x1, ys[i], ys[i + 1], slopes[i], slopes[i + 1], x);
+      default:
+        return ys[i] + (ys[i + 1] - ys[i]) * (x - x0) / h;
+    }
+  };
+}
@@ -1,3 +1,10 @@
+import * as Types from "../../../types";
+import { getSortedWaterlines, getUnitScale } from "./getters";
+
+// Plausible overall hull length in meters; outside this range the units are probably wrong
+const MIN_LENGTH_METERS = 0.1;
+const MAX_LENGTH_METERS = 500;
+
 /**
  * Validates that all panel vertices are defined and valid
  * Checks the eight vertices that define a hull panel (starboard and port sides)
@@ -24,18 +31,197 @@ export function areVerticesValid(...indices: (number | undefined)[]): boolean {
 }
 
 /**
- * Validates that all chine vertices are defined and valid
- * Chine vertices represent the intersections between hull panels
+ * Checks a QuoteTable before geometry generation and reports every problem found
+ * Errors make generation fail or produce broken geometry, warnings produce holes or suspicious shapes
  */
-export function areChineVerticesValid(chineVertices: any): boolean {
-  return areVerticesValid(
-    chineVertices.chineTopLeft,
-    chineVertices.chineTopRight,
-    chineVertices.chineBottomLeft,
-    chineVertices.chineBottomRight,
-    chineVertices.chineTopLeftPort,
-    chineVertices.chineTopRightPort,
-    chineVertices.chineBottomLeftPort,
-    chineVertices.chineBottomRightPort
-  );
-}
\ No newline at end of file
+export function validateQuoteTable(table: Types.QuoteTable): Types.QuoteTableValidation {
+  const diagnostics: Types.QuoteTableDiagnostic[] = [];
+  const report = (
+    code: Types.QuoteTableDiagnosticCode,
+    severity: Types.DiagnosticSeverity,
+    message: string,
+    location: Types.QuoteTableDiagnostic['location'] = {}
+  ) => diagnostics.push({ code, severity, message, location });
+
+  if (!table.stations || table.stations.length < 2) {
+    report('empty-table', 'error', `Table needs at least 2 stations, found ${table.stations?.length ?? 0}`);
+    return { valid: false, diagnostics };
+  }
+
+  // Non-finite numbers break every later check, so they are reported first
+  let finite = true;
+  table.stations.forEach((station, s) => {
+    if (!Number.isFinite(station.position)) {
+      report('invalid-number', 'error', `Station ${s} has position ${station.position}`, { station: s, field: 'position' });
+      finite = false;
+    }
+    [...station.waterlines, ...station.knuckles ?? []].forEach(wl => {
+      (['height', 'halfBreadthPort', 'halfBreadthStarboard'] as const).forEach(field => {
+        const value = wl[field];
+        if (value !== undefined && !Number.isFinite(value)) {
+          report('invalid-number', 'error', `Station ${station.position} has ${field} ${value}`, {
+            station: s, position: station.position, height: wl.height, field
+          });
+          finite = false;
+        }
+      });
+    });
+  });
+  if (!finite) return { valid: false, diagnostics };
+
+  const heights = getSortedWaterlines(table);
+  if (heights.length < 2) {
+    report('empty-table', 'error', `Table needs at least 2 waterline heights, found ${heights.length}`);
+  }
+
+  // Duplicate station positions
+  const seen = new Map<number, number>();
+  table.stations.forEach((station, s) => {
+    const first = seen.get(station.position);
+    if (first !== undefined) {
+      report('duplicate-station', 'error', `Stations ${first} and ${s} share position ${station.position}`, {
+        station: s, position: station.position, field: 'position'
+      });
+    } else {
+      seen.set(station.position, s);
+    }
+  });
+
+  // Keel bars need a width, a depth not above the baseline and a rake short of horizontal
+  const checkKeelSection = (
+    section: Partial<Types.KeelSection>,
+    label: string,
+    location: Types.QuoteTableDiagnostic['location']
+  ) => {
+    const { depth, width, rake } = section;
+    if ([depth, width, rake].some(value => value !== undefined && !Number.isFinite(value))) {
+      report('invalid-keel', 'error', `${label} has depth ${depth}, width ${width} and rake ${rake}`, location);
+      return;
+    }
+    if (width !== undefined && width <= 0) {
+      report('invalid-keel', 'error', `${label} has width ${width}`, { ...location, field: `${location.field}.width` });
+    }
+    if (depth !== undefined && depth < 0) {
+      report('invalid-keel', 'error', `${label} has depth ${depth} above the baseline`, { ...location, field: `${location.field}.depth` });
+    }
+    if (rake !== undefined && Math.abs(rake) >= 90) {
+      report('invalid-keel', 'error', `${label} has rake ${rake}°`, { ...location, field: `${location.field}.rake` });
+    }
+  };
+
+  table.stations.forEach((station, s) => {
+    const location = { station: s, position: station.position };
+    if (station.keel) checkKeelSection(station.keel, `Keel at station ${station.position}`, { ...location, field: 'keel' });
+    const own = [...station.waterlines].sort((a, b) => a.height - b.height);
+
+    // Heights this station lacks are interpolated when the grid is normalized
+    const missing = heights.filter(h => !own.some(wl => wl.height === h));
+    if (missing.length > 0) {
+      report('mismatched-waterlines', 'warning',
+        `Station ${station.position} has no offsets at heights ${missing.join(', ')}`,
+        { ...location, height: missing[0] });
+    }
+    const repeated = own.filter((wl, i) => i > 0 && own[i - 1].height === wl.height);
+    repeated.forEach(wl => report('mismatched-waterlines', 'error',
+      `Station ${station.position} lists height ${wl.height} more than once`, { ...location, height: wl.height, field: 'height' }));
+
+    own.forEach(wl => {
+      (['halfBreadthPort', 'halfBreadthStarboard'] as const).forEach(field => {
+        const value = wl[field];
+        if (value !== undefined && value < 0) {
+          report('negative-half-breadth', 'error', `Station ${station.position} has ${field} ${value} at height ${wl.height}`, {
+            ...location, height: wl.height, field
+          });
+        }
+      });
+
+      if (table.metadata.symmetry === 'asymmetric' && wl.halfBreadthStarboard === undefined) {
+        report('missing-starboard', 'warning',
+          `Asymmetric table has no starboard offset at station ${station.position}, height ${wl.height}; port is mirrored`,
+          { ...location, height: wl.height, field: 'halfBreadthStarboard' });
+      }
+    });
+
+    // Knuckles must lie within the station's offsets, one per height
+    const knuckles = [...station.knuckles ?? []].sort((a, b) => a.height - b.height);
+    knuckles.forEach((knuckle, i) => {
+      const knuckleLocation = { ...location, height: knuckle.height, field: 'knuckles' };
+      if (own.length > 0 && (knuckle.height < own[0].height || knuckle.height > own[own.length - 1].height)) {
+        report('invalid-knuckle', 'warning',
+          `Station ${station.position} has a knuckle at height ${knuckle.height} outside its offsets; it is ignored`, knuckleLocation);
+      }
+      if (i > 0 && knuckles[i - 1].height === knuckle.height) {
+        report('invalid-knuckle', 'error', `Station ${station.position} has two knuckles at height ${knuckle.height}`, knuckleLocation);
+      }
+      (['halfBreadthPort', 'halfBreadthStarboard'] as const).forEach(field => {
+        const value = knuckle[field];
+        if (value !== undefined && value < 0) {
+          report('negative-half-breadth', 'error', `Station ${station.position} has knuckle ${field} ${value} at height ${knuckle.height}`, {
+            ...knuckleLocation, field: `knuckles.${field}`
+          });
+        }
+      });
+    });
+
+    // Breadth should not shrink going up more than once (a single narrowing is tumblehome)
+    (['halfBreadthPort', 'halfBreadthStarboard'] as const).forEach(field => {
+      const values = own.map(wl => wl[field] ?? wl.halfBreadthPort);
+      let turns = 0;
+      let direction = 0;
+      for (let i = 1; i < values.length; i++) {
+        const step = Math.sign(values[i] - values[i - 1]);
+        if (step !== 0 && direction !== 0 && step !== direction) turns++;
+        if (step !== 0) direction = step;
+      }
+      if (turns > 1) {
+        report('non-monotonic-half-breadth', 'warning',
+          `Station ${station.position} ${field} changes direction ${turns} times over its height`, { ...location, field });
+      }
+    });
+  });
+
+  // Overall dimensions
+  const positions = table.stations.map(s => s.position);
+  const length = Math.max(...positions) - Math.min(...positions);
+  const depth = heights.length > 0 ? heights[heights.length - 1] - heights[0] : 0;
+  const maxBreadth = Math.max(0, ...table.stations.flatMap(s => s.waterlines.map(wl =>
+    Math.max(wl.halfBreadthPort, wl.halfBreadthStarboard ?? 0)
+  )));
+
+  if (length <= 0) report('zero-length', 'error', 'All stations are at the same position', { field: 'position' });
+  if (depth <= 0 && heights.length > 1) report('zero-length', 'error', 'All waterlines are at the same height', { field: 'height' });
+  if (maxBreadth <= 0) report('zero-length', 'error', 'Every half-breadth is zero', { field: 'halfBreadthPort' });
+
+  const keel = table.metadata.keel;
+  if (keel) {
+    const location = { field: 'metadata.keel' };
+    checkKeelSection(keel, 'Keel profile', location);
+    if (!Number.isFinite(keel.start) || !Number.isFinite(keel.end) || keel.start >= keel.end) {
+      report('invalid-keel', 'error', `Keel runs from ${keel.start} to ${keel.end}`, location);
+    } else if (keel.start < Math.min(...positions) || keel.end > Math.max(...positions)) {
+      report('invalid-keel', 'warning', `Keel from ${keel.start} to ${keel.end} runs past the stations; it is cut off at the ends of the hull`, location);
+    }
+    if ((keel.depth === undefined || keel.width === undefined) && !table.stations.some(s => s.keel)) {
+      report('invalid-keel', 'warning', 'Keel profile has no depth and width and no station has a keel section; no keel is generated', location);
+    }
+  }
+
+  // Unit plausibility from the overall length and the shell thickness
+  const units = table.metadata.units;
+  const lengthMeters = length * getUnitScale(units);
+  if (length > 0 && (lengthMeters < MIN_LENGTH_METERS || lengthMeters > MAX_LENGTH_METERS)) {
+    report('unit-mismatch', 'warning',
+      `Hull length ${length} ${units} (${lengthMeters.toPrecision(3)} m) looks implausible; check metadata.units`,
+      { field: 'metadata.units' });
+  }
+  if (depth > 0 && table.metadata.thickness > depth * 0.25) {
+    report('unit-mismatch', 'warning',
+      `Thickness ${table.metadata.thickness} ${units} is over a quarter of the hull depth; is it in ${units}?`,
+      { field: 'metadata.thickness' });
+  }
+
+  return {
+    valid: !diagnostics.some(d => d.severity === 'error'),
+    diagnostics
+  };
+}
@@ -0,0 +1,72 @@
+import * as Types from "../types"
+import * as THREE from "three"
+
+const vertexShader = /* glsl */ `
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+
+  void main() {
+    vec4 worldPosition = modelMatrix * vec4(position, 1.0);
+    vWorldPosition = worldPosition.xyz;
+    vWorldNormal = normalize(mat3(modelMatrix) * normal);
+    gl_Position = projectionMatrix * viewMatrix * worldPosition;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  uniform vec3 axis;
+  uniform float stripes;
+  uniform float width;
+  uniform bool reflection;
+  uniform vec3 darkColor;
+  uniform vec3 lightColor;
+
+  varying vec3 vWorldNormal;
+  varying vec3 vWorldPosition;
+
+  void main() {
+    // Meshes are double sided, so the back face looks along the flipped normal
+    vec3 normal = normalize(vWorldNormal) * (gl_FrontFacing ? 1.0 : -1.0);
+    vec3 direction = normal;
+    if (reflection) direction = reflect(normalize(vWorldPosition - cameraPosition), normal);
+
+    // Bands of equal angle to the axis; a kink in a band is a kink in the surface
+    float phase = acos(clamp(dot(direction, axis), -1.0, 1.0)) / 3.14159265 * stripes;
+    float band = fract(phase);
+    float edge = max(fwidth(phase), 1e-4);
+    float light = smoothstep(width - edge, width + edge, band) * (1.0 - smoothstep(1.0 - edge, 1.0, band));
+    gl_FragColor = vec4(mix(darkColor, lightColor, light), 1.0);
+  }
+`;
+
+/**
+ * Creates the unlit zebra stripe material shared by the hull, bow, transom and keel
+ * Stripes are banded by the angle between the surface normal (or its reflection of the view) and the axis
+ */
+export function createZebraMaterial(config: Types.ZebraStripeConfig): THREE.ShaderMaterial {
+  const material = new THREE.ShaderMaterial({
+    uniforms: {
+      axis: { value: new THREE.Vector3() },
+      stripes: { value: 0 },
+      width: { value: 0 },
+      reflection: { value: true },
+      darkColor: { value: new THREE.Color(0x111111) },
+      lightColor: { value: new THREE.Color(0xf5f5f5) }
+    },
+    vertexShader,
+    fragmentShader,
+    side: THREE.DoubleSide
+  });
+  material.name = 'zebra';
+  updateZebraMaterial(material, config);
+  return material;
+}
+
+/** Applies new zebra settings to an existing material without recompiling it */
+export function updateZebraMaterial(material: THREE.ShaderMaterial, config: Types.ZebraStripeConfig): void {
+  const axis = new THREE.Vector3(...config.axis);
+  material.uniforms.axis.value.copy(axis.lengthSq() > 0 ? axis.normalize() : new THREE.Vector3(0, 1, 0));
+  material.uniforms.stripes.value = Math.max(config.stripes, 1);
+  material.uniforms.width.value = THREE.MathUtils.clamp(config.width, 0, 1);
+  material.uniforms.reflection.value = config.mode === 'reflection';
+}
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import type { WaterlineData } from './QuoteTable';
 
 export interface GeometryGroups {
   stations: Record<string, number[]>;
@@ -10,6 +11,8 @@ export interface VertexGenerationResult {
   vertices: THREE.Vector3[];
   vertexMap: Record<string, number>;
   keelVertices: number[];
+  rowCount: number; // Vertex rows of every station, from the keel up
+  seams: number[];  // Rows that end a piece of the surface at a knuckle; no faces join them to the next row
 }
 
 export interface VertexGenerationResult {
@@ -18,8 +21,67 @@ export interface VertexGenerationResult {
   keelVertices: number[];
 }
 
+/** Curve through the offsets used when refining the hull grid */
+export type InterpolationScheme = 'linear' | 'catmull-rom' | 'natural-cubic' | 'monotone-cubic';
+
 export interface LODConfig {
   stationMultiplier: number;  // How many intermediate stations between original stations
   waterlineMultiplier: number; // How many intermediate waterlines between original waterlines
-  enableSmoothing: boolean;    // Whether to apply smoothing to the mesh
-}
\ No newline at end of file
+  enableSmoothing: boolean;    // Interpolate with a smooth curve instead of straight lines between offsets
+  interpolation?: InterpolationScheme; // Curve used when smoothing, defaults to 'monotone-cubic'
+}
+/**
+ * Vertex rows of every station, from the keel up
+ * A knuckle takes two rows, the top of the piece below and the bottom of the piece above,
+ * so faces either side of it keep their own normals.
+ */
+export interface HullRowLayout {
+  positions: number[];                   // Station positions, sorted
+  rows: (WaterlineData | undefined)[][]; // Per station sorted by position; undefined where a station lacks the offset
+  seams: number[];                       // Row w is the lower and w + 1 the upper copy of a knuckle
+  hardEdges: boolean[][];                // Per station and seam; false where the station has no knuckle of its own there
+}
+
+export interface GridNormalizationOptions {
+  waterlines?: number[];   // Common waterline heights; defaults to the merged heights of all stations
+  tolerance?: number;      // Heights closer than this are merged, defaults to 0.5% of the hull depth
+  stationSpacing?: number; // Resample stations at this equal spacing from bow to stern when set
+}
+
+/** Surface curvature measures; 'maximum' and 'minimum' are the principal curvatures */
+export type CurvatureType = 'gaussian' | 'mean' | 'maximum' | 'minimum';
+
+/** Curvatures at every hull mesh vertex, per table unit (Gaussian per table unit squared) */
+export interface VertexCurvature {
+  gaussian: Float32Array;
+  mean: Float32Array;      // Positive where the shell bulges outwards
+  maximum: Float32Array;
+  minimum: Float32Array;
+}
+
+export interface CurvatureDisplayOptions {
+  type?: CurvatureType;      // Defaults to 'gaussian'
+  range?: [number, number];  // Values mapped to the ends of the colour scale, defaults to ± the 95th percentile of |k|
+}
+
+export interface CurvatureLegend {
+  type: CurvatureType;
+  min: number;
+  max: number;
+  stops: { value: number; color: string }[]; // Evenly spaced from min to max, colours as #rrggbb
+}
+
+export interface PorcupinePoint {
+  position: THREE.Vector3;  // Point on the curve in table coordinates
+  normal: THREE.Vector3;    // Unit normal in the plane of the curve; spines run along normal × curvature
+  curvature: number;        // Signed curvature per table unit, positive turning anticlockwise in the plane
+}
+
+export interface PorcupineCurve {
+  kind: 'station' | 'waterline';
+  value: number;            // Station position or waterline height
+  side: 'port' | 'starboard';
+  points: PorcupinePoint[]; // Interior points of the curve, the ends have no curvature
+  maxCurvature: number;     // Largest absolute curvature along the curve
+  inflections: number;      // Sign changes of the curvature, each one a possible fairing problem
+}
@@ -15,6 +15,8 @@ export interface HullGeometry{
     transomIndices?: Uint16Array;
     bowPoints?: THREE.Vector3[];
     bowIndices?: Uint16Array;
+    keelPoints?: THREE.Vector3[];
+    keelIndices?: Uint16Array;
     colors?: Float32Array;
 }
 
@@ -23,4 +25,15 @@ export type HullGroups = {
     waterlines: boolean;
     deck: boolean;
     hull: boolean;
-};
\ No newline at end of file
+};
+/**
+ * Zebra stripe settings for fairness checks
+ * 'reflection' mirrors a room of parallel light bars in the surface, so the stripes move with the view;
+ * 'isophote' stripes follow the surface normal alone and stay put as the camera moves.
+ */
+export interface ZebraStripeConfig {
+    mode: 'reflection' | 'isophote';
+    stripes: number;                 // Light and dark pairs from one pole of the axis to the other
+    width: number;                   // Share of each pair that is dark, between 0 and 1
+    axis: [number, number, number];  // World direction the light bars run around, defaults to vertical
+}
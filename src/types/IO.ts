@@ -0,0 +1,191 @@
+import * as THREE from 'three';
+import type { QuoteTable, QuoteTableMetadata } from './QuoteTable';
+import type { Units } from './Math';
+import type { LODConfig } from './Geometry';
+import type { HullGroups } from './Hull';
+import type { CameraModes, Views } from './Camera';
+
+/** Orientation of an offset table grid in a spreadsheet */
+export type OffsetTableLayout = 'waterline-rows' | 'station-rows';
+
+export interface OffsetCSVOptions {
+  layout?: OffsetTableLayout;              // Parsing detects it from the corner cell when omitted
+  separator?: string;                      // Parsing detects ',', ';' or tab when omitted
+  metadata?: Partial<QuoteTableMetadata>;  // Defaults for fields the file does not carry
+}
+
+export interface OffsetParseError {
+  row: number;     // 1-based line in the file
+  column: number;  // 1-based cell in the line
+  value: string;
+  message: string;
+}
+
+export interface OffsetParseResult {
+  table: QuoteTable | null; // Null when no grid could be read at all
+  layout: OffsetTableLayout;
+  errors: OffsetParseError[];
+}
+
+/** File formats the hull surface can be written to */
+export type MeshExportFormat = 'stl' | 'stl-ascii' | 'obj' | 'gltf' | 'glb';
+
+/**
+ * Axis convention of exported meshes
+ * 'y-up' keeps the viewer axes (x transverse, y vertical, z longitudinal);
+ * 'z-up' is the usual CAD convention with x longitudinal, y transverse and z vertical
+ */
+export type CoordinateConvention = 'y-up' | 'z-up';
+
+/** Surface components written by the mesh exporter */
+export type HullComponent = 'hull' | 'deck' | 'bow' | 'transom' | 'keel';
+
+export interface MeshExportOptions {
+  units?: Units;                     // Output units, defaults to the offset table units
+  convention?: CoordinateConvention; // Defaults to 'y-up'
+  components?: HullComponent[];      // Defaults to every component that exists
+}
+
+export interface FEAMaterial {
+  youngsModulus: number;
+  poissonRatio: number;
+  density: number;
+}
+
+/** Units a consistent FEA model gives its masses, forces, stresses and densities in, next to its lengths */
+export interface FEAUnitSystem {
+  mass: string;
+  force: string;
+  stress: string;
+  density: string;
+}
+
+export interface FEAExportOptions extends MeshExportOptions {
+  quads?: boolean;       // Join triangle pairs of a panel into quadrilateral elements, default true
+  massScale?: number;    // Multiplier on masses in kg; defaults to the mass unit of the output units, or 1 with a material
+  material?: FEAMaterial; // Defaults to steel, converted to the consistent unit system of the output units
+}
+
+/** Shell element of an FEA model; node ids are 1-based */
+export interface FEAElement {
+  id: number;
+  nodes: number[];          // 3 or 4 node ids, ordered with the surface normal
+  component: HullComponent;
+  faces: number[];          // Triangle indices in the component mesh the element was built from
+}
+
+/** Point mass attached to its nearest node with an offset to the true position */
+export interface FEAMass {
+  id: number;
+  node: number;
+  mass: number;
+  offset: THREE.Vector3;
+  source: 'painted' | 'custom';
+}
+
+export interface FEAModel {
+  nodes: THREE.Vector3[];   // Node i has id i + 1, in output units and axes
+  elements: FEAElement[];
+  masses: FEAMass[];
+  components: HullComponent[]; // Components present; property ids follow HULL_COMPONENTS order
+  thickness: number;           // Shell thickness in output units
+  units: Units;
+  material: FEAMaterial;
+  unitSystem: FEAUnitSystem | null; // Units of the material and masses; null when the material came with the options
+}
+
+/** Point mass as stored in a project file, position in hull-local coordinates */
+export interface ProjectWeight {
+  position: [number, number, number];
+  magnitude: number;
+}
+
+/** Saved session: the hull, its weights and the view it was left in */
+export interface HullProject {
+  format: 'hull-visualizer-project';
+  version: number;
+  quoteTable: QuoteTable;
+  weights: {
+    painted: ProjectWeight[];
+    custom: ProjectWeight[];
+  };
+  brush: {
+    size: number;
+    weightPerFace: number; // kg
+  };
+  state: {
+    hullDetailLevel: LODConfig;
+    activeGroups: HullGroups;
+    wireframe: boolean;
+    cameraMode: CameraModes;
+    orthoView: Views;
+    floating: boolean;
+  };
+  camera: {
+    target: [number, number, number];
+    azimuth: number;
+    polar: number;
+    distance: number;
+  };
+}
+
+export interface ProjectLoadResult {
+  project: HullProject | null;  // Null when the file could not be read or failed validation
+  migratedFrom: number | null;  // Version the file was upgraded from, null when already current
+  errors: string[];             // Path and problem for each schema violation
+}
+
+/** Views of a lines drawing, each read from its own DXF layer */
+export type LinesPlanView = 'bodyPlan' | 'halfBreadth' | 'profile';
+
+export interface DXFImportOptions {
+  layers?: Partial<Record<LinesPlanView, string>>;            // Defaults to BODY_PLAN, HALF_BREADTH and PROFILE
+  origins?: Partial<Record<LinesPlanView, [number, number]>>; // Drawing point of the centreline/baseline (body plan) or station 0/centreline/baseline, default [0, 0]
+  scale?: number;                                             // Table units per drawing unit, default 1
+  waterlines?: number[];  // Heights to sample in table units; defaults to the labelled half-breadth waterlines or an even spacing
+  stations?: number[];    // Positions for unlabelled body-plan curves in drawing order; extra positions are sampled from the half-breadth plan
+  metadata?: Partial<QuoteTableMetadata>; // Units default to the drawing's $INSUNITS
+}
+
+/** Station found in the drawing and how it was sampled */
+export interface DXFStationReport {
+  position: number;
+  source: 'body-plan' | 'half-breadth';
+  label: string | null;  // Text the position was read from, null when taken from options.stations
+  missing: number[];     // Waterline heights no curve could give a half-breadth for; filled with zero below and the top breadth above
+}
+
+/** Curve on a lines-plan layer that contributed nothing to the table */
+export interface DXFCurveIssue {
+  layer: string;
+  type: string;            // DXF entity type, e.g. LWPOLYLINE
+  handle: string | null;   // DXF entity handle when the file carries one
+  reason: string;
+}
+
+export interface DXFImportResult {
+  table: QuoteTable | null; // Null when no station could be sampled
+  stations: DXFStationReport[];
+  unsampled: DXFCurveIssue[];
+  errors: string[];
+}
+
+/** Panel mesh formats for boundary element seakeeping codes */
+export type BEMExportFormat = 'wamit' | 'nemoh';
+
+export interface BEMExportOptions {
+  attitude?: { draft: number; trim: number; heel: number }; // Defaults to the floating attitude, or the solved equilibrium
+  units?: Units;        // Output units, defaults to the offset table units
+  halfMesh?: boolean;   // Write only the y >= 0 (starboard) half; defaults to true for symmetric tables floating upright
+}
+
+/**
+ * Wetted hull surface as panels in the seakeeping frame
+ * x runs along the table stations (bow lowest), y to starboard and z up from the free surface at z = 0
+ */
+export interface BEMMesh {
+  nodes: THREE.Vector3[];
+  panels: number[][];     // 0-based node indices, 3 or 4 per panel, normals pointing out of the body into the water
+  halfMesh: boolean;      // Only y >= 0 is panelled, mirrored about the xz plane by the solver
+  units: Units;
+}
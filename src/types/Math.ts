@@ -1 +1 @@
-export type Units = "mm" | "m" | "ft" | undefined;
\ No newline at end of file
+export type Units = "mm" | "m" | "ft" | "in" | undefined;
\ No newline at end of file
@@ -1,7 +1,7 @@
 import * as THREE  from 'three';
 
 export interface Weight {
-    position: THREE.Vector3;
+    position: THREE.Vector3; // Hull-local position (table coordinates × unit scale)
     // direction: THREE.Vector3;
     magnitude: number;
 }
@@ -16,6 +16,14 @@ export interface HydrostaticProperties {
   };
   wettedSurfaceArea: number;
   waterplaneArea: number;
+  waterplaneInertia: {
+    transverse: number;   // I_T about the centre of flotation
+    longitudinal: number; // I_L about the centre of flotation
+  };
+  metacentricRadius: {
+    transverse: number;   // BMt
+    longitudinal: number; // BMl
+  };
   centerOfFloatation: {
     longitudinal: number; // LCF
     transverse: number;
@@ -27,15 +35,220 @@ export interface HydrostaticProperties {
   maxSectionArea: number;
   lengthOverall: number;
   beamOverall: number;
+  lengthWaterline: number;
+  beamWaterline: number;
   draft: number;
+  trim: number;  // degrees, positive by the stern
+  heel: number;  // degrees, positive to starboard
 }
 
-export interface WaterIntersectionData {
-  points: THREE.Vector3[];
-  area: number;
+export interface EquilibriumResult {
+  draft: number;
+  trim: number;  // degrees, positive by the stern
+  heel: number;  // degrees, positive to starboard
+  mass: number;  // kg
+  centerOfGravity: THREE.Vector3;  // table coordinates
+  centerOfBuoyancy: THREE.Vector3; // table coordinates
+  hydrostatics: HydrostaticProperties;
+  converged: boolean;
+  iterations: number;
+}
+
+export interface StabilityPoint {
+  heel: number;  // degrees
+  gz: number;    // righting arm in table units, positive when righting
+  draft: number;
+  trim: number;  // degrees
+  centerOfBuoyancy: THREE.Vector3; // table coordinates
+}
+
+export interface StabilityCurve {
+  points: StabilityPoint[];
+  maxGZ: number;
+  angleOfMaxGZ: number;                     // degrees
+  angleOfVanishingStability: number | null; // degrees, null when GZ stays positive over the range
+  areaUnderCurve: number;                   // table units × radians, up to vanishing stability
+  metacentricHeight: number;                // upright GMt in table units, corrected for free surface
+  freeSurfaceCorrection: number;            // virtual rise of G from slack tanks, table units
+  metacenter: THREE.Vector3;                // upright transverse metacentre in table coordinates
+  centerOfGravity: THREE.Vector3;           // table coordinates
+  mass: number;                             // kg
+}
+
+export interface MassProperties {
+  mass: number;       // kg
+  shellMass: number;  // kg
+  shellArea: number;  // table units²
+  centerOfGravity: {
+    longitudinal: number; // LCG
+    vertical: number;     // VCG
+    transverse: number;   // TCG
+  };
+  momentsOfInertia: {     // kg·unit² about axes through the centre of gravity
+    roll: number;         // about the longitudinal axis
+    pitch: number;        // about the transverse axis
+    yaw: number;          // about the vertical axis
+  };
+  productsOfInertia: {
+    transverseVertical: number;
+    verticalLongitudinal: number;
+    transverseLongitudinal: number;
+  };
+  radiiOfGyration: {
+    roll: number;
+    pitch: number;
+    yaw: number;
+  };
+}
+
+export type MeasurementSystem = 'metric' | 'imperial';
+
+export interface HydrostaticTableRow {
+  draft: number;
   volume: number;
-  centerOfBuoyancy: THREE.Vector3;
-  metacenter: number;
-  buoyancyForce: THREE.Vector3;
-  buoyancyCenter: THREE.Vector3;
+  displacement: number;       // kg
+  waterplaneArea: number;
+  wettedSurfaceArea: number;
+  immersionRate: number;      // TPC (t/cm) for metric tables, TPI (LT/in) for imperial tables
+  momentToChangeTrim: number; // MCT 1cm (t·m/cm) for metric tables, MCT 1in (LT·ft/in) for imperial tables
+  kb: number;
+  bmt: number;
+  bml: number;
+  kmt: number;
+  kml: number;
+  lcb: number;
+  lcf: number;
+  blockCoefficient: number;
+  prismaticCoefficient: number;
+  midshipCoefficient: number;
+  waterplaneCoefficient: number;
+}
+
+export interface HydrostaticTable {
+  units: 'mm' | 'ft' | 'm' | 'in';
+  system: MeasurementSystem;
+  rows: HydrostaticTableRow[];
+}
+
+export interface ImmersedSection {
+  position: number;         // Station position (z-coordinate)
+  area: number;             // Immersed section area
+  centroid: { x: number; y: number };
+  girth: number;            // Wetted girth of the section outline
+  waterlineBreadth: number; // Length of the waterplane cut at this station
+  waterlineCenter: { x: number; y: number };
+  waterlineInertia: number; // Second moment of the cut about its own center
+}
+
+export interface BonjeanPoint {
+  draft: number;          // Above the lowest waterline
+  area: number;           // Immersed section area up to this draft
+  verticalMoment: number; // First moment of the immersed area about the baseline
+}
+
+export interface BonjeanCurve {
+  position: number;      // Station position (z-coordinate)
+  interpolated: boolean; // True for stations added by interpolateHullGrid
+  points: BonjeanPoint[];
+}
+
+export interface SectionalAreaPoint {
+  position: number;
+  area: number;
+  interpolated: boolean;
+}
+
+export interface SectionalAreaCurve {
+  draft: number;
+  trim: number;
+  heel: number;
+  points: SectionalAreaPoint[];
+  volume: number;              // Area under the curve
+  centerOfArea: number;        // Longitudinal centre of the area under the curve (LCB)
+  maxArea: number;
+  positionOfMaxArea: number;
+}
+
+export interface StrengthPoint {
+  position: number;      // Longitudinal position in table units
+  weight: number;        // Weight per unit length (N/m)
+  buoyancy: number;      // Buoyancy per unit length (N/m)
+  load: number;          // Buoyancy minus weight (N/m)
+  shearForce: number;    // N, integrated from the bow (lowest station position)
+  bendingMoment: number; // N·m, positive when the hull sags
+}
+
+export interface LongitudinalStrength {
+  points: StrengthPoint[];
+  maxShearForce: number;          // Largest absolute shear force (signed)
+  positionOfMaxShear: number;
+  maxBendingMoment: number;       // Largest absolute bending moment (signed)
+  positionOfMaxBendingMoment: number;
+  totalWeight: number;            // N
+  totalBuoyancy: number;          // N
+  residualShear: number;          // Shear left at the stern, zero in perfect equilibrium
+  residualMoment: number;         // Moment left at the stern
+  draft: number;
+  trim: number;
+  heel: number;
+}
+
+export type CompartmentSide = 'port' | 'starboard' | 'centre';
+
+export interface Compartment {
+  name: string;
+  startStation: number;   // Aft-most bound as a station position (z-coordinate)
+  endStation: number;
+  bottom: number;         // Height band in table units
+  top: number;
+  side: CompartmentSide;  // 'centre' spans both sides of the centreline
+  fillLevel: number;      // Filled fraction of the capacity, 0 to 1
+  liquidDensity: number;  // kg/m³
+}
+
+export interface CompartmentProperties {
+  name: string;
+  volume: number;           // Full capacity in table units³
+  liquidVolume: number;     // Volume at the fill level in table units³
+  liquidMass: number;       // kg
+  liquidHeight: number;     // Height of the free surface in table coordinates
+  centroid: THREE.Vector3;  // Centroid of the full compartment, table coordinates
+  liquidCentroid: THREE.Vector3; // Centroid of the liquid, table coordinates
+  freeSurfaceInertia: number;    // Transverse second moment of the free surface in table units⁴
+  freeSurfaceMoment: number;     // Free-surface inertia × liquid density in kg·m
+}
+
+export interface TankCalibrationRow {
+  sounding: number;  // Liquid height above the compartment bottom
+  volume: number;    // table units³
+  mass: number;      // kg
+  fillLevel: number; // Fraction of the capacity
+}
+
+export interface LoadingCondition {
+  name: string;                         // e.g. 'lightship', 'departure', 'arrival'
+  customWeights: Weight[];
+  paintedWeights: Weight[];
+  fillLevels: Record<string, number>;   // Compartment name → filled fraction
+}
+
+export interface LoadingConditionResult {
+  condition: string;
+  mass: number;                    // kg
+  centerOfGravity: THREE.Vector3;  // table coordinates
+  freeSurfaceCorrection: number;   // table units
+  equilibrium: EquilibriumResult;
+  stability: StabilityCurve | null; // null when the GZ curve was not requested
+}
+
+export interface WaterIntersectionData {
+  points: THREE.Vector3[];             // Main waterline loop, hull-local coordinates
+  loops: THREE.Vector3[][];            // Every cut polyline, longest first
+  area: number;                        // Waterplane area in table units²
+  volume: number;                      // Immersed volume in table units³
+  centerOfBuoyancy: THREE.Vector3;     // Table coordinates
+  centerOfFloatation: THREE.Vector3;   // Hull-local coordinates, on the waterplane
+  metacenter: number;                  // KMt, height of the transverse metacentre above the baseline
+  buoyancyForce: THREE.Vector3;        // Newtons, along the water "up" direction seen from the hull
+  buoyancyCenter: THREE.Vector3;       // Centre of buoyancy in hull-local coordinates
 }
\ No newline at end of file
@@ -7,19 +7,80 @@ export interface QuoteTable {
 export interface QuoteTableMetadata {
   weight: number;
   hasKeel?: boolean;
+  /** @deprecated Ignored when meshing; declare the chine with knuckles on the stations instead */
   hasChine?: boolean;
   thickness: number;
-  units: 'mm' | 'ft' | 'm';
+  units: 'mm' | 'ft' | 'm' | 'in';
   symmetry?: 'symmetric' | 'asymmetric';
+  keel?: KeelProfile; // Keel or skeg bar below the hull bottom
 }
 
 export interface Station {
   position: number; // Station position (z-coordinate)
   waterlines: WaterlineData[];
+  knuckles?: KnucklePoint[]; // Hard edges of the section; matched between stations by order from the keel up
+  keel?: KeelSection;        // Keel bar at this station, overrides the profile defaults
 }
 
 export interface WaterlineData {
   height: number; // Waterline height (y-coordinate)
   halfBreadthPort: number;
   halfBreadthStarboard?: number; // Optional - if missing, use port value (symmetric)
-}
\ No newline at end of file
+}
+
+export type KnuckleType = 'chine' | 'spray-rail' | 'knuckle';
+
+/** Point of a station where the surface breaks, such as a chine; it need not lie on a waterline */
+export interface KnucklePoint extends WaterlineData {
+  type?: KnuckleType; // Defaults to 'chine'
+}
+
+/** Keel or skeg bar section at a station */
+export interface KeelSection {
+  depth: number; // Bottom of the bar below the baseline (the lowest waterline)
+  width: number; // Full width of the bar
+  rake?: number; // Degrees the bar bottom sweeps aft of its top, defaults to 0
+}
+
+/** Keel or skeg running along the bottom between two stations */
+export interface KeelProfile {
+  start: number;  // Station position where the keel begins
+  end: number;    // Station position where it ends
+  depth?: number; // Defaults for stations without a keel section of their own
+  width?: number;
+  rake?: number;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type QuoteTableDiagnosticCode =
+  | 'empty-table'
+  | 'invalid-number'
+  | 'duplicate-station'
+  | 'mismatched-waterlines'
+  | 'negative-half-breadth'
+  | 'non-monotonic-half-breadth'
+  | 'missing-starboard'
+  | 'zero-length'
+  | 'unit-mismatch'
+  | 'invalid-knuckle'
+  | 'invalid-keel';
+
+export interface QuoteTableDiagnostic {
+  code: QuoteTableDiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  location: {
+    station?: number;  // Index in table.stations
+    position?: number; // Station position
+    height?: number;   // Waterline height
+    field?: string;    // Offending field, e.g. 'halfBreadthPort' or 'metadata.units'
+  };
+}
+
+export interface QuoteTableValidation {
+  valid: boolean; // False when any diagnostic is an error
+  diagnostics: QuoteTableDiagnostic[];
+}
+
+export type QuoteTableValidationMode = 'off' | 'warn' | 'reject';
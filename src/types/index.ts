@@ -4,4 +4,5 @@ export * from './Color';
 export * from './Math';
 export * from './Geometry';
 export * from './Physics';
-export * from './Camera';
\ No newline at end of file
+export * from './Camera';
+export * from './IO';